@@ -0,0 +1,184 @@
+import { isPlainObject, isUndefined } from "lodash"
+import * as S from "./types"
+
+/* -------------------------------------------------- */
+/*                      Devtools                      */
+/* -------------------------------------------------- */
+
+/**
+ * Connect a state to the Redux DevTools extension. Each event sent to the state will
+ * appear as an action, along with the changes it made to the state's data, and the
+ * state's serialized snapshot (data, active paths and histories) after the event.
+ * Jumping to an earlier action in the devtools will restore that snapshot.
+ * Returns a function that disconnects the state.
+ * @param state The state to connect.
+ * @param options (optional) The instance name and the extension to connect to.
+ * @public
+ * @example
+ * const disconnect = connectDevtools(state, { name: "Counter" })
+ */
+export function connectDevtools<D, V, E extends S.EventMap, P extends string>(
+  state: S.DesignedState<D, V, E, P>,
+  options: S.DevtoolsOptions = {}
+) {
+  const extension = options.extension || getDevtoolsExtension()
+
+  // Without an extension, there's nothing to connect to.
+  if (isUndefined(extension)) return () => {}
+
+  const connection = extension.connect({ name: options.name || state.id })
+
+  let prev = state.serialize()
+  connection.init(prev)
+
+  const stopInspecting = state.inspect((record) => {
+    if (record.type !== S.VerboseType.Queue) return
+
+    connection.send(
+      {
+        type: record.event,
+        payload: record.payload,
+        diff: getDataDiff(prev.data, record.snapshot.data),
+      },
+      record.snapshot
+    )
+
+    prev = record.snapshot
+  })
+
+  const stopListening = connection.subscribe((message) => {
+    if (message.type !== "DISPATCH" || isUndefined(message.payload)) return
+
+    switch (message.payload.type) {
+      case "JUMP_TO_STATE":
+      case "JUMP_TO_ACTION": {
+        if (isUndefined(message.state)) return
+        prev = JSON.parse(message.state)
+        state.hydrate(prev as S.SerializedState<D>)
+        break
+      }
+      case "RESET": {
+        state.reset()
+        prev = state.serialize()
+        connection.init(prev)
+        break
+      }
+      case "COMMIT": {
+        prev = state.serialize()
+        connection.init(prev)
+        break
+      }
+    }
+  })
+
+  return () => {
+    stopInspecting()
+
+    if (typeof stopListening === "function") {
+      stopListening()
+    } else {
+      connection.unsubscribe?.()
+    }
+  }
+}
+
+/**
+ * Create an in-memory stand-in for the Redux DevTools extension. Pass it to
+ * `connectDevtools` as the `extension` option to test a connection without a browser.
+ * @public
+ * @example
+ * const devtools = createMemoryDevtools()
+ * connectDevtools(state, { extension: devtools })
+ * devtools.jumpTo(0)
+ */
+export function createMemoryDevtools(): S.MemoryDevtools {
+  const listeners = new Set<(message: S.DevtoolsMessage) => void>([])
+
+  const devtools: S.MemoryDevtools = {
+    history: [],
+    connect: () => ({
+      init: (state) => {
+        devtools.history = [{ action: { type: "@@INIT" }, state: clone(state) }]
+      },
+      send: (action, state) => {
+        devtools.history.push({ action: clone(action), state: clone(state) })
+      },
+      subscribe: (listener) => {
+        listeners.add(listener)
+        return () => {
+          listeners.delete(listener)
+        }
+      },
+    }),
+    dispatch: (message) => {
+      listeners.forEach((listener) => listener(message))
+    },
+    jumpTo: (index) => {
+      const entry = devtools.history[index]
+
+      if (isUndefined(entry)) {
+        throw Error(`No state in the devtools history at index ${index}!`)
+      }
+
+      devtools.dispatch({
+        type: "DISPATCH",
+        payload: { type: "JUMP_TO_STATE" },
+        state: JSON.stringify(entry.state),
+      })
+    },
+  }
+
+  return devtools
+}
+
+/* -------------------------------------------------- */
+/*                        Pure                        */
+/* -------------------------------------------------- */
+
+/**
+ * Get the Redux DevTools extension, if installed.
+ */
+function getDevtoolsExtension(): S.DevtoolsExtension | undefined {
+  if (typeof window === "undefined") return undefined
+  return (window as any).__REDUX_DEVTOOLS_EXTENSION__
+}
+
+/**
+ * Copy a value as the extension would, by serializing it.
+ * @param value
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Get the changes between two versions of a state's data, as a record of
+ * changed paths (e.g. `items.0.name`) and their previous and next values.
+ * @param prev
+ * @param next
+ * @param path
+ * @param acc
+ */
+function getDataDiff(
+  prev: any,
+  next: any,
+  path = "",
+  acc: Record<string, [any, any]> = {}
+) {
+  if (prev === next) return acc
+
+  if (
+    (isPlainObject(prev) && isPlainObject(next)) ||
+    (Array.isArray(prev) && Array.isArray(next))
+  ) {
+    const keys = new Set([...Object.keys(prev), ...Object.keys(next)])
+
+    keys.forEach((key) =>
+      getDataDiff(prev[key], next[key], path ? path + "." + key : key, acc)
+    )
+  } else {
+    acc[path] = [prev, next]
+  }
+
+  return acc
+}
@@ -11,17 +11,36 @@ export function createDesign<
   A extends Record<string, S.Action<D>>,
   Y extends Record<string, S.Async<D>>,
   T extends Record<string, S.Time<D>>,
-  V extends Record<string, S.Value<D>>
+  V extends Record<string, S.Value<D>>,
+  E extends S.EventMap = S.EventMap,
+  Z extends Record<string, S.Service<D>> = Record<string, S.Service<D>>,
+  X extends Record<string, S.StateDesign<D, R, C, A, Y, T, V, E, Z>> = Record<
+    string,
+    S.StateDesign<D, R, C, A, Y, T, V, E, Z>
+  >,
+  O extends S.EventHandlersDesign<D, R, C, A, T, E> = S.EventHandlersDesign<
+    D,
+    R,
+    C,
+    A,
+    T,
+    E
+  >
 >(
-  design: S.Design<D, R, C, A, Y, T, V>
-): S.DesignWithHelpers<D, R, C, A, Y, T, V> {
+  design: S.Design<D, R, C, A, Y, T, V, E, Z, X, O> & S.ValidTargets<X, O>
+): S.DesignWithHelpers<D, R, C, A, Y, T, V, E, Z, X, O> {
   return {
     ...design,
-    createEventHandlerDesign: (
-      eventHandlerDesign: S.EventHandlerDesign<D, R, C, A, T>
+    createEventHandlerDesign: <Q = any>(
+      eventHandlerDesign: S.EventHandlerDesign<D, R, C, A, T, any, Q>
     ) => eventHandlerDesign,
-    createEventHandlerObjectDesign: (
-      eventHandlerItemDesign: S.EventHandlerObjectDesign<D, R, C, A, T>
+    createEventHandlerObjectDesign: <
+      G extends S.MaybeArray<S.ResultDesign<D, R>> | [] = S.EventFn<D, any>
+    >(
+      eventHandlerItemDesign: Omit<
+        S.EventHandlerObjectDesign<D, R, C, A, T, any, S.GetResult<R, G>>,
+        "get"
+      > & { get?: G }
     ) => eventHandlerItemDesign,
     createAsyncEventDesign: (
       asyncEventDesign: S.AsyncEventDesign<D, R, C, A, Y, T>
@@ -29,7 +48,7 @@ export function createDesign<
     createRepeatEventDesign: (
       repeatEventDesign: S.RepeatEventDesign<D, R, C, A, T>
     ) => repeatEventDesign,
-    createState: (stateDesign: S.StateDesign<D, R, C, A, Y, T, V>) =>
+    createState: (stateDesign: S.StateDesign<D, R, C, A, Y, T, V, E, Z>) =>
       stateDesign,
     createActionDesign: (actionDesign: S.ActionDesign<D, A>) => actionDesign,
     createConditionDesign: (conditionDesign: S.ConditionDesign<D, C>) =>
@@ -1,11 +1,17 @@
 import * as S from "./types"
-import { createDraft, finishDraft, Draft, current } from "immer"
+import { createDraft, finishDraft, Draft, Patch, current } from "immer"
 import { testEventHandlerConditions } from "./testEventHandlerConditions"
 
 export function createEventChain<D>(options: S.EventChainOptions<D>) {
-  let { state, onDelayedOutcome, getFreshDataAfterWait } = options
+  let {
+    state,
+    clock,
+    inspect,
+    onDelayedOutcome,
+    getFreshDataAfterWait,
+  } = options
   let handlers = [...options.handler]
-  const { payload } = options
+  const { payload, context } = options
 
   let waiting = false
 
@@ -21,6 +27,8 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
     shouldNotify: false,
     pendingSend: undefined,
     pendingTransition: [],
+    patches: [],
+    inversePatches: [],
   }
 
   let draftCore: Draft<S.EventChainCore<D>> = createDraft(core)
@@ -28,7 +36,10 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
   let tResult = options.result
 
   function complete(draft: Draft<S.EventChainCore<D>>) {
-    core = finishDraft(draft) as S.EventChainCore<D>
+    core = finishDraft(draft, (patches, inversePatches) => {
+      finalOutcome.patches = getDataPatches(patches)
+      finalOutcome.inversePatches = getDataPatches(inversePatches)
+    }) as S.EventChainCore<D>
     finalOutcome.result = core.result
     finalOutcome.data = core.data
   }
@@ -52,8 +63,12 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
     } else if (nextHandlerObject.wait !== undefined) {
       // Calculate wait time from finalOutcome draft
       const waitTime =
-        nextHandlerObject.wait((draft.data as D) as D, payload, draft.result) *
-        1000
+        nextHandlerObject.wait(
+          (draft.data as D) as D,
+          payload,
+          draft.result,
+          context
+        ) * 1000
 
       // Notify, if necessary
       if (waiting && finalOutcome.shouldNotify) {
@@ -63,8 +78,19 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
 
       waiting = true
 
-      // TODO: Does timeouts really need to be an array?
-      state.times.timeouts[0] = setTimeout(() => {
+      inspect({
+        type: S.VerboseType.Wait,
+        time: clock.now(),
+        state: state.path,
+        delay: waitTime,
+      })
+
+      const timeout = clock.setTimeout(() => {
+        state.times.timeouts = state.times.timeouts.filter((t) => t !== timeout)
+        state.times.waits = state.times.waits.filter(
+          (wait) => wait.timeout !== timeout
+        )
+
         core.data = getFreshDataAfterWait() // After the timeout, refresh data
         core.result = undefined // Results can't be carried across!
 
@@ -93,6 +119,13 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
         onDelayedOutcome(finalOutcome)
       }, waitTime)
 
+      state.times.timeouts.push(timeout)
+      state.times.waits.push({
+        timeout,
+        delay: waitTime,
+        startedAt: clock.now(),
+      })
+
       // Stop this chain
       return { shouldBreakDueToWait: true }
     } else {
@@ -114,7 +147,15 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
     // Compute a result using original data and draft result
     if (handler.get.length > 0) {
       for (let resu of handler.get) {
-        tResult = resu(draft.data as D, payload, tResult)
+        tResult = resu(draft.data as D, payload, tResult, context)
+
+        inspect({
+          type: S.VerboseType.Result,
+          time: clock.now(),
+          state: state.path,
+          name: resu.name,
+          result: tResult,
+        })
       }
 
       // Save result to draft
@@ -127,9 +168,25 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
       handler,
       curr.data as D,
       curr.payload,
-      curr.result
+      curr.result,
+      context,
+      (condition, passed) =>
+        inspect({
+          type: S.VerboseType.Condition,
+          time: clock.now(),
+          state: state.path,
+          name: condition.name,
+          passed,
+        })
     )
 
+    inspect({
+      type: S.VerboseType.EventHandler,
+      time: clock.now(),
+      state: state.path,
+      passed: passedConditions,
+    })
+
     // Create temporary human-readable copy of data
 
     if (passedConditions) {
@@ -138,14 +195,28 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
         finalOutcome.shouldNotify = true
 
         for (let action of handler.do) {
-          action(draft.data as D, curr.payload, curr.result)
+          action(draft.data as D, curr.payload, curr.result, context)
+
+          inspect({
+            type: S.VerboseType.Action,
+            time: clock.now(),
+            state: state.path,
+            name: action.name,
+          })
         }
       }
 
       // Secret actions
       if (handler.secretlyDo.length > 0) {
         for (let action of handler.secretlyDo) {
-          action(draft.data as D, curr.payload, curr.result)
+          action(draft.data as D, curr.payload, curr.result, context)
+
+          inspect({
+            type: S.VerboseType.SecretAction,
+            time: clock.now(),
+            state: state.path,
+            name: action.name,
+          })
         }
       }
 
@@ -153,14 +224,21 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
 
       // Sends
       if (handler.send !== undefined) {
-        const event = handler.send(curr.data as D, curr.payload, curr.result)
+        const event = handler.send(
+          curr.data as D,
+          curr.payload,
+          curr.result,
+          context
+        )
         finalOutcome.pendingSend = event
       }
 
       // Transitions
       if (handler.to.length > 0) {
         finalOutcome.pendingTransition.push(
-          ...handler.to.map((t) => t(curr.data as D, curr.payload, curr.result))
+          ...handler.to.map((t) =>
+            t(curr.data as D, curr.payload, curr.result, context)
+          )
         )
         finalOutcome.shouldBreak = true
         finalOutcome.shouldNotify = true
@@ -172,7 +250,7 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
       if (handler.secretlyTo.length > 0) {
         finalOutcome.pendingTransition.push(
           ...handler.secretlyTo.map((t) =>
-            t(curr.data as D, curr.payload, curr.result)
+            t(curr.data as D, curr.payload, curr.result, context)
           )
         )
 
@@ -189,7 +267,7 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
 
       // Break
       if (handler.break !== undefined) {
-        if (handler.break(curr.data as D, curr.payload, curr.result)) {
+        if (handler.break(curr.data as D, curr.payload, curr.result, context)) {
           return { shouldBreak: true }
         }
       }
@@ -209,3 +287,13 @@ export function createEventChain<D>(options: S.EventChainOptions<D>) {
 
   return finalOutcome
 }
+
+/**
+ * Get the patches that changed the data of an event chain's core, with paths relative to the data.
+ * @param patches
+ */
+function getDataPatches(patches: Patch[]) {
+  return patches
+    .filter((patch) => patch.path[0] === "data")
+    .map((patch) => ({ ...patch, path: patch.path.slice(1) }))
+}
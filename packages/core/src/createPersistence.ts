@@ -0,0 +1,191 @@
+import { get, has, isNil, isUndefined, pick, set } from "lodash"
+import { produce } from "immer"
+import * as S from "./types"
+import { defaultClock } from "./createTestClock"
+
+/* -------------------------------------------------- */
+/*                     Persistence                    */
+/* -------------------------------------------------- */
+
+/**
+ * Create a persistence that writes a state's data (or chosen parts of it), active states and
+ * histories to a storage adapter whenever the state updates, and that can restore them later.
+ * @param options The key and storage adapter to use, along with (optional) paths to pick, a version and migration, and a delay.
+ * @public
+ * @example
+ * const persistence = createPersistence({ key: "counter", storage: createLocalStorage() })
+ * const state = createState(design, { plugins: [persistence.plugin] })
+ * persistence.restore(state)
+ */
+export function createPersistence<D = any>(
+  options: S.PersistOptions
+): S.Persistence<D> {
+  const { key, storage, version = 0, delay = 0, active = true } = options
+  const clock = options.clock || defaultClock
+
+  let pending: S.DesignedState<D, any, any, any> | undefined
+  let timeout: any
+
+  /**
+   * Write a state to storage.
+   * @param state The state to write.
+   */
+  function write(state: S.DesignedState<D, any, any, any>) {
+    const serialized = state.serialize()
+
+    const persisted: S.PersistedState = {
+      version,
+      data: isUndefined(options.pick)
+        ? serialized.data
+        : pick(serialized.data, options.pick),
+    }
+
+    if (active) {
+      persisted.active = serialized.active
+      persisted.history = serialized.history
+    }
+
+    return Promise.resolve(storage.setItem(key, JSON.stringify(persisted)))
+  }
+
+  /**
+   * Cancel the pending write, if any.
+   */
+  function cancel() {
+    if (!isUndefined(timeout)) {
+      clock.clearTimeout(timeout)
+      timeout = undefined
+    }
+  }
+
+  function flush(): Promise<void> {
+    cancel()
+
+    const state = pending
+    pending = undefined
+
+    return isUndefined(state) ? Promise.resolve() : write(state)
+  }
+
+  function clear(): Promise<void> {
+    cancel()
+    pending = undefined
+
+    return Promise.resolve(storage.removeItem(key))
+  }
+
+  function restore(state: S.DesignedState<D, any, any, any>) {
+    return Promise.resolve(storage.getItem(key)).then((json) => {
+      if (isNil(json)) return false
+
+      const persisted: S.PersistedState = JSON.parse(json)
+      const isCurrent = persisted.version === version
+      let data = persisted.data
+
+      if (!isCurrent) {
+        if (isUndefined(options.migrate)) return false
+        data = options.migrate(persisted.version, data)
+      }
+
+      const serialized = state.serialize()
+
+      // Active states saved under another version may not exist in this
+      // design, so only restore them from the current version.
+      const restoreActive = active && isCurrent
+
+      state.hydrate({
+        data: mergePickedData(serialized.data, data, options.pick),
+        active: (restoreActive && persisted.active) || serialized.active,
+        history: (restoreActive && persisted.history) || serialized.history,
+        log: serialized.log,
+      })
+
+      return true
+    })
+  }
+
+  const plugin: S.Plugin<D> = {
+    name: "persistence",
+    onNotify: (state) => {
+      pending = state
+      cancel()
+
+      // Debounce writes, so that updates made together are written once.
+      timeout = clock.setTimeout(() => {
+        timeout = undefined
+        flush().catch((error) => {
+          if (__DEV__) {
+            console.warn(`Could not persist the state (${key})!`, error)
+          }
+        })
+      }, delay * 1000)
+    },
+  }
+
+  return { plugin, restore, flush, clear }
+}
+
+/* -------------------------------------------------- */
+/*                  Storage Adapters                  */
+/* -------------------------------------------------- */
+
+/**
+ * Create a storage adapter that keeps items in memory, useful for tests and servers.
+ * @public
+ * @example
+ * const persistence = createPersistence({ key: "counter", storage: createMemoryStorage() })
+ */
+export function createMemoryStorage(): S.StorageAdapter {
+  const items = new Map<string, string>([])
+
+  return {
+    getItem: (key) => items.get(key),
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+/**
+ * Create a storage adapter for the browser's `localStorage`.
+ * @public
+ * @example
+ * const persistence = createPersistence({ key: "counter", storage: createLocalStorage() })
+ */
+export function createLocalStorage(): S.StorageAdapter {
+  if (typeof window === "undefined" || isUndefined(window.localStorage)) {
+    throw Error(`No localStorage in this environment!`)
+  }
+
+  return {
+    getItem: (key) => window.localStorage.getItem(key),
+    setItem: (key, value) => window.localStorage.setItem(key, value),
+    removeItem: (key) => window.localStorage.removeItem(key),
+  }
+}
+
+/* -------------------------------------------------- */
+/*                        Pure                        */
+/* -------------------------------------------------- */
+
+/**
+ * Merge persisted data into a state's current data. When only some paths were
+ * persisted, only those paths are replaced.
+ * @param current
+ * @param persisted
+ * @param paths
+ */
+function mergePickedData<D>(current: D, persisted: any, paths?: string[]) {
+  if (isUndefined(paths)) return persisted as D
+
+  return produce(current, (draft: any) => {
+    for (let path of paths) {
+      if (has(persisted, path)) {
+        set(draft, path, get(persisted, path))
+      }
+    }
+  })
+}
@@ -1,11 +1,27 @@
-import { last, castArray, isFunction, uniqueId, isUndefined } from "lodash"
-import { produce, enableAllPlugins, setAutoFreeze } from "immer"
+import {
+  castArray,
+  flatMap,
+  flatten,
+  isFunction,
+  uniq,
+  uniqueId,
+  isUndefined,
+} from "lodash"
+import {
+  produce,
+  applyPatches,
+  enableAllPlugins,
+  setAutoFreeze,
+  Patch,
+} from "immer"
 
 import { testEventHandlerConditions } from "./testEventHandlerConditions"
 import { createEventChain } from "./createEventChain"
 import * as S from "./types"
 import * as StateTree from "./stateTree"
 import { getStateTreeFromDesign } from "./getStateTreeFromDesign"
+import { defaultClock } from "./createTestClock"
+import { createValueCache } from "./createValueCache"
 
 enableAllPlugins()
 setAutoFreeze(false)
@@ -21,6 +37,7 @@ type ReturnedValues<TD, TV extends Record<string, S.Value<TD>>> = {
 /**
  * Create a new state from a designuration object.
  * @param design The state's design object.
+ * @param options (optional) Options for the new state, such as a serialized snapshot to hydrate from.
  * @public
  */
 export function createState<
@@ -30,14 +47,32 @@ export function createState<
   A extends Record<string, S.Action<D>>,
   Y extends Record<string, S.Async<D>>,
   T extends Record<string, S.Time<D>>,
-  V extends Record<string, S.Value<D>>
+  V extends Record<string, S.Value<D>>,
+  E extends S.EventMap = S.EventMap,
+  Z extends Record<string, S.Service<D>> = Record<string, S.Service<D>>,
+  X extends Record<string, S.StateDesign<D, R, C, A, Y, T, V, E, Z>> = Record<
+    string,
+    S.StateDesign<D, R, C, A, Y, T, V, E, Z>
+  >,
+  O extends S.EventHandlersDesign<D, R, C, A, T, E> = S.EventHandlersDesign<
+    D,
+    R,
+    C,
+    A,
+    T,
+    E
+  >
 >(
-  design: S.Design<D, R, C, A, Y, T, V>
+  design: S.Design<D, R, C, A, Y, T, V, E, Z, X, O> & S.ValidTargets<X, O>,
+  options: S.StateOptions<D> = {}
 ): S.DesignedState<
   D,
   {
     [key in keyof V]: ReturnType<V[key]>
-  }
+  },
+  E,
+  S.StatePath<X>,
+  S.TransitionStatePath<X>
 > {
   /* ------------------ Subscriptions ----------------- 
   
@@ -74,7 +109,7 @@ export function createState<
     pause and resume? Activities with cleanup? */
     if (subscribers.size === 0) {
       stopLoop()
-      StateTree.recursivelyEndStateIntervals(snapshot.stateTree)
+      StateTree.recursivelyEndStateIntervals(snapshot.stateTree, clock)
     }
   }
 
@@ -82,32 +117,334 @@ export function createState<
    * Call each subscriber callback with the current state.
    */
   function notifySubscribers() {
+    commitHistoryEntry()
+    setActiveStates()
     setValues()
     setLog()
-    setActiveStates()
+    setPatches()
     subscribers.forEach((subscriber) => subscriber(snapshot))
+    emit({ type: S.VerboseType.Notification, time: clock.now() })
+    plugins.forEach((plugin) => plugin.onNotify?.(snapshot))
+
+    // An update from outside of the event queue (such as a resolved async)
+    // may have entered states that can handle deferred events.
+    if (queueState === "ready" && deferredEvents.length > 0) {
+      releaseDeferredEvents()
+
+      if (eventsToProcess.length > 0) {
+        processEventQueue()
+      }
+    }
+  }
+
+  /* ------------------- Inspection ------------------- 
+  
+  A state can also have one or more inspectors: callbacks that
+  receive a structured record of each thing that happens inside
+  of the state, such as events received, conditions tested,
+  actions run and transitions taken.
+  */
+
+  const inspectors = new Set<S.Inspector>([])
+
+  /**
+   * Add a listener that will be called with a record of each event, handler object,
+   * condition, action, result, wait and transition. Returns a function that removes the listener.
+   * @param listener The callback to call with each record.
+   * @public
+   * @example
+   * const stop = state.inspect((record) => console.log(record.type, record))
+   */
+  function inspect(listener: S.Inspector) {
+    inspectors.add(listener)
+    return () => {
+      inspectors.delete(listener)
+    }
+  }
+
+  /**
+   * Call each inspector with a record.
+   * @param record The record to send.
+   */
+  function emit(record: S.InspectRecord) {
+    inspectors.forEach((inspector) => inspector(record))
+  }
+
+  /* --------------------- Plugins --------------------
+
+  A state can also have plugins: sets of hooks that run around
+  each event, transition and notification. Plugins run in order,
+  and may veto events and transitions or transform events.
+  */
+
+  const plugins = options.plugins || []
+
+  /**
+   * Run each plugin's beforeEvent hook, passing along any transformed event.
+   * Returns the event to handle, or undefined if a plugin vetoed the event.
+   * @param event The event received by the state.
+   */
+  function runBeforeEventPlugins(event: S.Event): S.Event | undefined {
+    let current = event
+
+    for (const plugin of plugins) {
+      if (isUndefined(plugin.beforeEvent)) continue
+
+      const outcome = plugin.beforeEvent(current, snapshot)
+
+      if (outcome === false) return undefined
+
+      if (typeof outcome === "object" && outcome !== null) {
+        current = outcome
+      }
+    }
+
+    return current
+  }
+
+  /**
+   * Run each plugin's beforeTransition hook. Returns false if a plugin vetoed the transition.
+   * @param transition The transition that is about to run.
+   */
+  function runBeforeTransitionPlugins(
+    transition: Omit<S.PluginTransition, "after">
+  ) {
+    return plugins.every(
+      (plugin) => plugin.beforeTransition?.(transition, snapshot) !== false
+    )
+  }
+
+  /* --------------------- History --------------------
+
+  A state created with the `history` option records the changes
+  made between notifications as an entry of patches to its data,
+  along with its active states before and after the changes.
+  Undoing an entry applies its inverse patches and restores the
+  earlier active states; redoing an entry does the opposite.
+  */
+
+  const historyOptions: S.HistoryOptions | undefined =
+    options.history === true ? {} : options.history || undefined
+
+  const nonUndoable: string[] = design.nonUndoable || []
+
+  const undoStack: S.HistoryEntry[] = []
+  const redoStack: S.HistoryEntry[] = []
+
+  let historyPatches: Patch[] = []
+  let historyInversePatches: Patch[] = []
+  let historyHasChanges = false
+  let historyHasUnrecordedChanges = false
+  let isRecordingHistory = true
+  let historyBaseline: S.HistoryEntry["before"] | undefined
+
+  /**
+   * Record the changes made by an event handler chain, unless they were caused by a non-undoable event.
+   * @param patches The patches made to the state's data, if any.
+   * @param inversePatches The patches that would undo those changes.
+   */
+  function recordHistoryChanges(
+    patches: Patch[] = [],
+    inversePatches: Patch[] = []
+  ) {
+    if (isUndefined(historyOptions)) return
+
+    if (!isRecordingHistory) {
+      historyHasUnrecordedChanges = true
+      return
+    }
+
+    historyPatches.push(...patches)
+    historyInversePatches.unshift(...inversePatches)
+    historyHasChanges = true
+  }
+
+  /**
+   * Add the changes recorded since the last entry (if any) to the history as a new entry.
+   */
+  function commitHistoryEntry() {
+    if (isUndefined(historyOptions) || isUndefined(historyBaseline)) return
+
+    const { active, history } = serialize()
+    const after = { active, history }
+
+    if (historyHasChanges) {
+      undoStack.push({
+        patches: historyPatches,
+        inversePatches: historyInversePatches,
+        before: historyBaseline,
+        after,
+      })
+
+      const { limit } = historyOptions
+
+      if (!isUndefined(limit) && undoStack.length > limit) {
+        undoStack.splice(0, undoStack.length - limit)
+      }
+    }
+
+    // Redoing an entry would overwrite any changes made since it was undone,
+    // including those made by non-undoable events.
+    if (historyHasChanges || historyHasUnrecordedChanges) {
+      redoStack.length = 0
+    }
+
+    historyBaseline = after
+    discardHistoryChanges()
+  }
+
+  /**
+   * Forget any changes recorded since the last entry.
+   */
+  function discardHistoryChanges() {
+    historyPatches = []
+    historyInversePatches = []
+    historyHasChanges = false
+    historyHasUnrecordedChanges = false
+    snapshot.canUndo = undoStack.length > 0
+    snapshot.canRedo = redoStack.length > 0
+  }
+
+  /**
+   * Clear the history, starting again from the state's current data and active states.
+   */
+  function clearHistory() {
+    if (isUndefined(historyOptions)) return
+
+    const { active, history } = serialize()
+    historyBaseline = { active, history }
+    undoStack.length = 0
+    redoStack.length = 0
+    discardHistoryChanges()
+  }
+
+  /**
+   * Apply patches to the state's data and restore its active states, then notify subscribers.
+   * @param patches The patches to apply.
+   * @param inversePatches The patches that would undo those changes.
+   * @param states The active states and histories to restore.
+   */
+  function applyHistoryEntry(
+    patches: Patch[],
+    inversePatches: Patch[],
+    states: S.HistoryEntry["before"]
+  ) {
+    restore({
+      ...states,
+      data: applyPatches(snapshot.data, patches),
+      log: _log,
+    })
+
+    recordPatches(patches, inversePatches)
+    discardHistoryChanges()
+    notifySubscribers()
+  }
+
+  /**
+   * Undo the most recent entry in the state's history.
+   * @public
+   * @example
+   * state.undo()
+   */
+  function undo(): Snapshot {
+    const entry = undoStack.pop()
+
+    if (!isUndefined(entry)) {
+      redoStack.push(entry)
+      applyHistoryEntry(entry.inversePatches, entry.patches, entry.before)
+    }
+
+    return snapshot
+  }
+
+  /**
+   * Redo the most recently undone entry in the state's history.
+   * @public
+   * @example
+   * state.redo()
+   */
+  function redo(): Snapshot {
+    const entry = redoStack.pop()
+
+    if (!isUndefined(entry)) {
+      undoStack.push(entry)
+      applyHistoryEntry(entry.patches, entry.inversePatches, entry.after)
+    }
+
+    return snapshot
   }
 
   /* --------------------- Updates -------------------- */
 
   /**
    * Handle the outcome of an event handler chain.
+   * @param state The state that ran the event handler chain.
    * @param outcome The outcome of an event handler chain.
+   * @param eventName The name (if any) of the event that led to the event handler chain.
    * @param payload The payload (if any) sent with the event that led to the event handler chain.
    */
   function handleEventHandlerChainOutcome(
+    state: S.State<D, V>,
     outcome: S.EventChainOutcome<D>,
+    eventName: string | undefined,
     payload: any
   ) {
     snapshot.data = outcome.data
 
+    if (outcome.patches.length > 0) {
+      recordPatches(outcome.patches, outcome.inversePatches)
+      recordHistoryChanges(outcome.patches, outcome.inversePatches)
+    }
+
     if (outcome.pendingSend) {
       const { event, payload: pendingPayload } = outcome.pendingSend
       send(event, pendingPayload)
     }
 
-    for (let transition of outcome.pendingTransition) {
-      runTransition(transition, payload, outcome.result)
+    if (outcome.pendingTransition.length > 0) {
+      runTransition(
+        outcome.pendingTransition,
+        eventName,
+        payload,
+        outcome.result,
+        state
+      )
+    }
+  }
+
+  /**
+   * Get the context passed to the event functions run by a state.
+   * @param state The state that is running the event functions.
+   * @param eventName The name (if any) of the event being handled.
+   */
+  function getEventContext(
+    state: S.State<D, unknown>,
+    eventName: string | undefined
+  ): S.EventContext {
+    return {
+      event: eventName,
+      path: state.path,
+      // Read the tree rather than _activePaths, which is only updated on notify.
+      isIn: (...paths) => {
+        const activePaths = StateTree.getActivePaths(snapshot.stateTree)
+
+        return paths
+          .map((path) => (path.startsWith(".") ? path : "." + path))
+          .every(
+            (path) =>
+              activePaths.find((activePath) => activePath.endsWith(path)) !==
+              undefined
+          )
+      },
+      get values() {
+        return snapshot.values
+      },
+      send: (name, payload) => {
+        send(name, payload)
+      },
+      get now() {
+        return clock.now()
+      },
     }
   }
 
@@ -116,17 +453,21 @@ export function createState<
   function runEventHandlerChain(
     state: S.State<D, V>,
     eventHandler: S.EventHandler<D>,
+    eventName: string | undefined,
     payload: any,
     result: any
   ) {
     const outcome = createEventChain<D>({
       state,
+      clock,
+      inspect: emit,
       data: snapshot.data,
       result,
       payload,
+      context: getEventContext(state, eventName),
       handler: eventHandler,
       onDelayedOutcome: (outcome) => {
-        handleEventHandlerChainOutcome(outcome, payload)
+        handleEventHandlerChainOutcome(state, outcome, eventName, payload)
 
         if (outcome.shouldNotify) {
           notifySubscribers()
@@ -135,15 +476,16 @@ export function createState<
       getFreshDataAfterWait: () => snapshot.data,
     })
 
-    handleEventHandlerChainOutcome(outcome, payload)
+    handleEventHandlerChainOutcome(state, outcome, eventName, payload)
 
     return outcome
   }
 
   // Try to run an event on a state. If active, it will run the corresponding
-  // event, if it has one; and, so long as there hasn't been a transition,
-  // will run its onEvent event, if it has one. If still no transition has
-  // occurred, it will move to try its child states.
+  // event, if it has one, followed by any events with matching patterns; and,
+  // so long as there hasn't been a transition, will run its onEvent event, if
+  // it has one. If still no transition has occurred, it will move to try its
+  // child states.
   function handleEventOnState(
     state: S.State<D, V>,
     sent: S.Event
@@ -156,15 +498,14 @@ export function createState<
       (state) => state.active
     )
 
-    const eventHandler = state.on[sent.event]
-
     let outcome: S.EventChainOutcome<D> | undefined = undefined
 
-    // Run event handler, if present
-    if (!isUndefined(eventHandler)) {
+    // Run event handlers, if present
+    for (let eventHandler of StateTree.getEventHandlers(state, sent.event)) {
       outcome = runEventHandlerChain(
         state,
         eventHandler,
+        sent.event,
         sent.payload,
         undefined
       )
@@ -185,6 +526,7 @@ export function createState<
       outcome = runEventHandlerChain(
         state,
         state.onEvent,
+        sent.event,
         sent.payload,
         outcome?.result
       )
@@ -199,6 +541,25 @@ export function createState<
         return record
       }
     }
+    // Forward event to child machine, if it can handle the event
+    if (
+      !isUndefined(state.child) &&
+      StateTree.canHandleEvent(state.child.state.stateTree, sent.event)
+    ) {
+      state.child.state.send(sent.event, sent.payload)
+
+      const onDoneOutcome = handleChildMachineDone(state, sent.event)
+
+      if (!isUndefined(onDoneOutcome)) {
+        record.shouldNotify = true
+
+        if (onDoneOutcome.shouldBreak) {
+          record.shouldHalt = true
+          return record
+        }
+      }
+    }
+
     // Run event on states
     for (let childState of activeChildren) {
       const childRecord = handleEventOnState(childState, sent)
@@ -218,59 +579,121 @@ export function createState<
   }
 
   /**
-   * Run a transition.
+   * Run a transition to one or more target states. All targets are activated
+   * together, so each state will run its onExit and onEnter events at most once.
    *
-   * @param path The path (or path segment) indicating the transition's target state.
+   * @param paths The paths (or path segments) indicating the transition's target states.
+   * @param eventName The name (if any) of the event that caused the transition.
    * @param payload The payload (if any) sent along with the event that caused the transition.
    * @param result The current result (if any) passed along from the event handler chain.
+   * @param from The state (if any) that handled the event, used to resolve relative targets.
    */
-  function runTransition(path: string, payload: any, result: any) {
-    const isPreviousTransition = path.endsWith(".previous")
-    const isRestoreTransition = path.endsWith(".restore")
+  function runTransition(
+    paths: string[],
+    eventName: string | undefined,
+    payload: any,
+    result: any,
+    from?: S.State<D, V>
+  ) {
+    const targets: S.TransitionTarget[] = []
+    const targetStates: S.State<D, V>[] = []
 
-    if (isPreviousTransition) {
-      path = path.slice(0, path.length - 9)
-    } else if (isRestoreTransition) {
-      path = path.slice(0, path.length - 8)
-    }
+    for (let path of paths) {
+      const isPreviousTransition = path.endsWith(".previous")
+      const isRestoreTransition = path.endsWith(".restore")
+
+      if (isPreviousTransition) {
+        path = path.slice(0, path.length - 9)
+      } else if (isRestoreTransition) {
+        path = path.slice(0, path.length - 8)
+      }
+
+      // Find the state that best matches the target
+      const { target, matches } = StateTree.resolveTransitionTarget(
+        snapshot.stateTree,
+        path,
+        from
+      )
+
+      if (isUndefined(target)) {
+        if (__DEV__) {
+          throw Error(`No state with that path (${path}) in the tree!`)
+        } else {
+          return
+        }
+      }
+
+      if (__DEV__ && matches.length > 1) {
+        console.warn(
+          `The target ${path} matches more than one state (${matches
+            .map((state) => state.path)
+            .join(", ")}), so the transition will go to ${target.path}.`
+        )
+      }
+
+      targetStates.push(target)
 
-    // Get all states from the tree that match the target
-    const targets = StateTree.findTransitionTargets(snapshot.stateTree, path)
+      targets.push({
+        // Get the path of state names to the target state
+        path: target.path.split(".").slice(1),
+        prev: isPreviousTransition || isRestoreTransition,
+        deep: isRestoreTransition,
+      })
+    }
 
-    // Get the deepest matching target state
-    const target = last(targets)
+    // Make sure that all of the targets can be active at the same time
+    const conflict = StateTree.findConflictingTargets(
+      snapshot.stateTree,
+      targetStates
+    )
 
-    if (isUndefined(target)) {
+    if (!isUndefined(conflict)) {
       if (__DEV__) {
-        throw Error(`No state with that path (${path}) in the tree!`)
+        throw Error(
+          `Can't transition to both ${conflict.a.path} and ${conflict.b.path}, as they are in the same branch state (${conflict.ancestor.path})!`
+        )
       } else {
         return
       }
     }
 
-    // Get the path of state names to the target state
-    const pathDown = target.path.split(".").slice(1)
-
     // Get an array of states that are currently active (before the transition)
     const beforeActive = StateTree.getActiveStates(snapshot.stateTree)
 
+    // Give plugins a chance to veto the transition
+    if (
+      !runBeforeTransitionPlugins({
+        state: from?.path,
+        targets: getPaths(targetStates),
+        before: getPaths(beforeActive),
+      })
+    ) {
+      return
+    }
+
+    recordHistoryChanges()
+
+    // Get an array of states that were already done (before the transition)
+    const beforeDone = beforeActive.filter(
+      (state) => !isUndefined(state.onDone) && StateTree.isStateDone(state)
+    )
+
     // Ok, time to change which states are active!
 
     // 1. Deactivate the whole state tree
     StateTree.deactivateState(snapshot.stateTree)
 
     // 2. Update the initial states across the entire state tree.
-    StateTree.setIntitialStates(snapshot.stateTree, payload, snapshot.data)
-
-    // 3. Use the path to activate the tree again
-    StateTree.activateState(
+    StateTree.setIntitialStates(
       snapshot.stateTree,
-      pathDown,
-      beforeActive,
-      isPreviousTransition || isRestoreTransition,
-      isRestoreTransition
+      payload,
+      snapshot.data,
+      (state) => getEventContext(state, eventName)
     )
 
+    // 3. Use the paths to activate the tree again
+    StateTree.activateState(snapshot.stateTree, targets, beforeActive)
+
     // Get an array of states that are now active (after the transition)
     const afterActive = StateTree.getActiveStates(snapshot.stateTree)
 
@@ -284,130 +707,479 @@ export function createState<
       (state) => !beforeActive.includes(state)
     )
 
+    const transition: S.PluginTransition = {
+      state: from?.path,
+      targets: getPaths(targetStates),
+      before: getPaths(beforeActive),
+      after: getPaths(afterActive),
+    }
+
+    emit({ type: S.VerboseType.Transition, time: clock.now(), ...transition })
+
+    plugins.forEach((plugin) => plugin.afterTransition?.(transition, snapshot))
+
     // Deactivated States
     // - clear any interval
     // - handle onExit events
     // - bail if we've transitioned
 
     deactivatedStates.forEach((state) => {
-      StateTree.endStateIntervals(state)
+      StateTree.endStateIntervals(state, clock)
       removeOnFrameEventHandler(state)
     })
 
-    for (let state of deactivatedStates) {
-      const { onExit } = state
-      state.activeId++
+    for (let state of deactivatedStates) {
+      const { onExit } = state
+      state.activeId++
+
+      if (!isUndefined(onExit)) {
+        const onExitOutcome = runEventHandlerChain(
+          state,
+          onExit,
+          eventName,
+          payload,
+          result
+        )
+        if (onExitOutcome.shouldBreak) return
+      }
+    }
+
+    // Activated States
+    // - set any repeat interval
+    // - handle onEnter events
+    // - bail if we've transitioned
+
+    for (let state of newlyActivatedStates) {
+      const { async, repeat, after, onEnter, machine, service } = state
+
+      if (!isUndefined(repeat)) {
+        startRepeat(state, repeat, eventName, payload, result)
+      }
+
+      if (!isUndefined(after)) {
+        startAfterEvents(state, after, eventName, payload, result)
+      }
+
+      if (!isUndefined(onEnter)) {
+        const onEnterOutcome = runEventHandlerChain(
+          state,
+          onEnter,
+          eventName,
+          payload,
+          result
+        )
+
+        if (onEnterOutcome.shouldBreak) return
+      }
+
+      if (!isUndefined(machine)) {
+        startChildMachine(state, machine)
+      }
+
+      if (!isUndefined(service)) {
+        startServices(state, service, payload)
+      }
+
+      if (!isUndefined(async)) {
+        startAsyncEvents(state, async, eventName, payload, result)
+      }
+    } // End for newlyActivatedStates
+
+    // Done States
+    // - handle onDone events, deepest states first
+    // - bail if we've transitioned
+
+    const newlyDoneStates = afterActive
+      .filter(
+        (state) =>
+          !isUndefined(state.onDone) &&
+          !beforeDone.includes(state) &&
+          StateTree.isStateDone(state)
+      )
+      .sort((a, b) => b.depth - a.depth)
+
+    for (let state of newlyDoneStates) {
+      // A previous onDone event may have changed the active states
+      if (!state.active || isUndefined(state.onDone)) continue
+
+      const onDoneOutcome = runEventHandlerChain(
+        state,
+        state.onDone,
+        eventName,
+        payload,
+        result
+      )
+
+      if (onDoneOutcome.shouldBreak) return
+    }
+  }
+
+  /**
+   * Start a state's repeat event, either on each animation frame or on its delay.
+   * @param state The state with the repeat event.
+   * @param repeat The state's repeat event.
+   * @param eventName The name (if any) of the event that activated the state.
+   * @param payload The payload (if any) sent along with the event that activated the state.
+   * @param result The current result (if any) passed along from the event handler chain.
+   */
+  function startRepeat(
+    state: S.State<D, V>,
+    repeat: S.RepeatEvent<D>,
+    eventName: string | undefined,
+    payload: any,
+    result: any
+  ) {
+    const { onRepeat, delay } = repeat
+
+    let now = clock.now()
+    let elapsed = 0
+    let realInterval = 0
+
+    if (delay === undefined) {
+      // Add state to batched frame events and (maybe) start the loop
+      addOnFrameState(state, { eventName, payload, start: now })
+    } else {
+      // Run on provided delay amount
+      let lastTime = clock.now()
+
+      const s = delay(
+        snapshot.data,
+        payload,
+        result,
+        getEventContext(state, eventName)
+      )
+
+      state.times.interval = clock.setInterval(() => {
+        now = clock.now()
+        realInterval = now - lastTime
+        elapsed += realInterval
+        lastTime = now
+
+        const outcome = runEventHandlerChain(
+          state,
+          onRepeat,
+          eventName,
+          payload,
+          { interval: realInterval, elapsed }
+        )
+
+        if (outcome.shouldNotify) notifySubscribers()
+      }, Math.max(1 / 60, s * 1000))
+    }
+  }
+
+  /**
+   * Start a timer for each of a state's after events. Each timer runs its event handler
+   * once; any timers still pending will be cleared when the state is exited.
+   * @param state The state with the after events.
+   * @param after The state's after events.
+   * @param eventName The name (if any) of the event that activated the state.
+   * @param payload The payload (if any) sent along with the event that activated the state.
+   * @param result The current result (if any) passed along from the event handler chain.
+   */
+  function startAfterEvents(
+    state: S.State<D, V>,
+    after: S.AfterEvent<D>[],
+    eventName: string | undefined,
+    payload: any,
+    result: any
+  ) {
+    for (let { delay, eventHandler } of after) {
+      const timeout = clock.setTimeout(() => {
+        state.times.timeouts = state.times.timeouts.filter((t) => t !== timeout)
+
+        const outcome = runEventHandlerChain(
+          state,
+          eventHandler,
+          eventName,
+          payload,
+          result
+        )
+
+        if (outcome.shouldNotify) notifySubscribers()
+      }, delay(snapshot.data, payload, result, getEventContext(state, eventName)) * 1000)
+
+      state.times.timeouts.push(timeout)
+    }
+  }
+
+  /**
+   * Start each of a state's async events. Any asyncs still pending will be aborted when
+   * the state's intervals are ended.
+   * @param state The state with the async events.
+   * @param asyncEvents The state's async events.
+   * @param eventName The name (if any) of the event that activated the state.
+   * @param payload The payload (if any) sent along with the event that activated the state.
+   * @param result The current result (if any) passed along from the event handler chain.
+   */
+  function startAsyncEvents(
+    state: S.State<D, V>,
+    asyncEvents: S.AsyncEvent<D>[],
+    eventName: string | undefined,
+    payload: any,
+    result: any
+  ) {
+    // Abort any asyncs left over from an earlier activation
+    state.times.cancelAsync?.()
+
+    const cancels = asyncEvents.map((asyncEvent) =>
+      startAsyncEvent(state, asyncEvent, eventName, payload, result)
+    )
+
+    state.times.cancelAsync = () => cancels.forEach((cancel) => cancel())
+  }
+
+  /**
+   * Start an async event, passing the async an abort signal and a progress function, and
+   * handle its outcome. Returns a function that aborts the async.
+   * @param state The state with the async event.
+   * @param asyncEvent The async event to start.
+   * @param eventName The name (if any) of the event that activated the state.
+   * @param payload The payload (if any) sent along with the event that activated the state.
+   * @param result The current result (if any) passed along from the event handler chain.
+   */
+  function startAsyncEvent(
+    state: S.State<D, V>,
+    asyncEvent: S.AsyncEvent<D>,
+    eventName: string | undefined,
+    payload: any,
+    result: any
+  ) {
+    const controller = createAbortController()
+    let finished = false
+    let timeout: any
+
+    function finish() {
+      finished = true
+
+      if (!isUndefined(timeout)) {
+        clock.clearTimeout(timeout)
+        timeout = undefined
+      }
+    }
+
+    function handleOutcome(handler: S.EventHandler<D> | undefined, value: any) {
+      if (isUndefined(handler)) return
+
+      const localUpdate = runEventHandlerChain(
+        state,
+        handler,
+        eventName,
+        payload,
+        value
+      )
+
+      if (localUpdate.shouldNotify) notifySubscribers()
+    }
+
+    if (!isUndefined(asyncEvent.timeout)) {
+      const seconds = asyncEvent.timeout(
+        snapshot.data,
+        payload,
+        result,
+        getEventContext(state, eventName)
+      )
+
+      timeout = clock.setTimeout(() => {
+        timeout = undefined
+        if (finished) return
+        finish()
+        controller.abort()
+        handleOutcome(asyncEvent.onReject, createAsyncTimeoutError(seconds))
+      }, seconds * 1000)
+    }
+
+    asyncEvent
+      .await(
+        snapshot.data,
+        payload,
+        result,
+        Object.assign(getEventContext(state, eventName), {
+          signal: controller.signal,
+          progress: (value: any) => {
+            if (finished) return
+            handleOutcome(asyncEvent.onProgress, value)
+          },
+        })
+      )
+      .then(
+        (resolved) => {
+          if (finished) return
+          finish()
+          handleOutcome(asyncEvent.onResolve, resolved)
+        },
+        (rejected) => {
+          if (finished) return
+          finish()
+          handleOutcome(asyncEvent.onReject, rejected)
+        }
+      )
+
+    return () => {
+      if (finished) return
+      finish()
+      controller.abort()
+    }
+  }
+
+  /**
+   * Start a state's services. Events sent back from a service are sent to this state
+   * until the state's intervals are ended, at which point each service is stopped and
+   * its cleanup function (if any) is called.
+   * @param state The state with the services.
+   * @param services The state's services.
+   * @param payload The payload (if any) sent along with the event that activated the state.
+   */
+  function startServices(
+    state: S.State<D, V>,
+    services: S.Service<D>[],
+    payload: any
+  ) {
+    const stops = services.map((service) => {
+      let stopped = false
+
+      const cleanup = service(snapshot.data, payload, (eventName, payload) => {
+        if (stopped) return
+        send(eventName, payload)
+      })
+
+      return () => {
+        stopped = true
+        if (isFunction(cleanup)) cleanup()
+      }
+    })
+
+    state.times.stopServices = () => stops.forEach((stop) => stop())
+  }
+
+  /**
+   * Create a state's child machine and subscribe to its updates. The child machine
+   * will be stopped when the state's intervals are ended.
+   * @param state The state with the child machine.
+   * @param machine The state's machine design.
+   */
+  function startChildMachine(state: S.State<D, V>, machine: S.Machine<D>) {
+    const child: S.ChildMachine = {
+      state: createState(machine.design, { clock }),
+      isDone: false,
+    }
+
+    state.child = child
 
-      if (!isUndefined(onExit)) {
-        const onExitOutcome = runEventHandlerChain(
-          state,
-          onExit,
-          payload,
-          result
-        )
-        if (onExitOutcome.shouldBreak) return
+    // Events forwarded while processing are handled in handleEventOnState;
+    // other updates (from the child's own waits, repeats or asyncs) are not.
+    const cancelUpdates = child.state.onUpdate(() => {
+      if (queueState === "processing") {
+        processShouldNotify = true
+        return
       }
-    }
 
-    // Activated States
-    // - set any repeat interval
-    // - handle onEnter events
-    // - bail if we've transitioned
+      handleChildMachineDone(state, undefined)
+      notifySubscribers()
+    })
 
-    for (let state of newlyActivatedStates) {
-      const { async, repeat, onEnter } = state
+    state.times.stopChild = () => {
+      cancelUpdates()
+      state.child = undefined
+    }
+  }
 
-      if (!isUndefined(repeat)) {
-        const { onRepeat, delay } = repeat
+  /**
+   * If a state's child machine has newly reached one of its final states, run the state's onDone event.
+   * @param state The state with the child machine.
+   * @param eventName The name (if any) of the event forwarded to the child machine.
+   */
+  function handleChildMachineDone(
+    state: S.State<D, V>,
+    eventName: string | undefined
+  ): S.EventChainOutcome<D> | undefined {
+    const { child, machine } = state
 
-        let now = performance.now()
-        // let lastTime: number | undefined = undefined
-        let elapsed = 0
-        let realInterval = 0
+    if (isUndefined(child) || isUndefined(machine)) return
+    if (child.isDone) return
 
-        if (delay === undefined) {
-          // Add state to batched frame events and (maybe) start the loop
-          addOnFrameState(state, { payload, start: now })
-        } else {
-          // Run on provided delay amount
-          let lastTime = performance.now()
+    const isDone =
+      machine.final.length > 0
+        ? child.state.isInAny(...machine.final)
+        : StateTree.isStateDone(child.state.stateTree)
 
-          const s = delay(snapshot.data, payload, result)
+    if (!isDone) return
 
-          state.times.interval = setInterval(() => {
-            now = performance.now()
-            realInterval = now - lastTime
-            elapsed += realInterval
-            lastTime = now
+    child.isDone = true
 
-            const outcome = runEventHandlerChain(state, onRepeat, payload, {
-              interval: realInterval,
-              elapsed,
-            })
+    if (isUndefined(machine.onDone)) return
 
-            if (outcome.shouldNotify) notifySubscribers()
-          }, Math.max(1 / 60, s * 1000))
-        }
-      }
+    return runEventHandlerChain(
+      state,
+      machine.onDone,
+      eventName,
+      undefined,
+      child.state.data
+    )
+  }
 
-      if (!isUndefined(onEnter)) {
-        const onEnterOutcome = runEventHandlerChain(
-          state,
-          onEnter,
-          payload,
-          result
-        )
+  /* --------------------- Patches --------------------
 
-        if (onEnterOutcome.shouldBreak) return
-      }
+  Each update carries the immer patches made to the state's data
+  since the previous update, along with their inverse patches and
+  the paths that they changed.
+  */
 
-      if (!isUndefined(async)) {
-        let finished = false
+  let updatePatches: Patch[] = []
+  let updateInversePatches: Patch[] = []
 
-        state.times.cancelAsync = () => (finished = true)
+  /**
+   * Record patches to include in the next update.
+   * @param patches The patches made to the state's data.
+   * @param inversePatches The patches that would undo those changes.
+   */
+  function recordPatches(patches: Patch[], inversePatches: Patch[]) {
+    updatePatches.push(...patches)
+    updateInversePatches.unshift(...inversePatches)
+  }
 
-        async.await(snapshot.data, payload, result).then(
-          (resolved) => {
-            if (finished) return
+  /**
+   * Record the replacement of the state's data as a whole, such as when hydrating or resetting.
+   * @param prev The state's data before it was replaced.
+   */
+  function recordDataReplacement(prev: D) {
+    recordPatches(
+      [{ op: "replace", path: [], value: snapshot.data }],
+      [{ op: "replace", path: [], value: prev }]
+    )
+  }
 
-            const localUpdate = runEventHandlerChain(
-              state,
-              async.onResolve,
-              payload,
-              resolved
-            )
+  function setPatches() {
+    snapshot.patches = updatePatches
+    snapshot.inversePatches = updateInversePatches
+    snapshot.changedPaths = uniq(
+      updatePatches.map((patch) => patch.path.join("."))
+    )
 
-            if (localUpdate.shouldNotify) notifySubscribers()
-          },
-          (rejected) => {
-            if (!isUndefined(async.onReject)) {
-              if (finished) return
-
-              const localUpdate = runEventHandlerChain(
-                state,
-                async.onReject,
-                payload,
-                rejected
-              )
-
-              if (localUpdate.shouldNotify) notifySubscribers()
-            }
-          }
-        )
-      } // End async handling
-    } // End for newlyActivatedStates
+    updatePatches = []
+    updateInversePatches = []
   }
 
   function setLog() {
     snapshot.log = [..._log]
   }
 
+  const valueCache = createValueCache(design.values)
+
   function setValues() {
-    snapshot.values = getValues(snapshot.data, design.values)
+    const { values, errors } = valueCache.getValues(
+      snapshot.data,
+      snapshot.active,
+      isIn
+    )
+
+    snapshot.values = values as ReturnedValues<D, V>
+    snapshot.valueErrors = errors as Snapshot["valueErrors"]
   }
 
   function setActiveStates() {
     _activeStates = StateTree.getActiveStates(snapshot.stateTree)
+    _activePaths = StateTree.getActivePaths(snapshot.stateTree)
     snapshot.active = getPaths(_activeStates)
   }
 
@@ -423,6 +1195,8 @@ export function createState<
 
   interface EventWithSettle extends S.Event {
     onSettle: (snapshot: Snapshot) => void
+    // Whether the event has already been throttled or debounced
+    isTimed?: boolean
   }
 
   let queueState: "ready" | "processing" = "ready"
@@ -431,6 +1205,176 @@ export function createState<
   const eventsToProcess: EventWithSettle[] = []
   const eventsToResolve: EventWithSettle[] = []
 
+  // The times at which throttled events were last handled, by state and event
+  const throttledAt = new Map<string, number>()
+
+  // The debounced events waiting to be handled, by state and event
+  const debounced = new Map<
+    string,
+    { timeout: any; events: EventWithSettle[] }
+  >()
+
+  /**
+   * Find the throttle or debounce (if any) for an event, from the first active state
+   * with an event handler object for the event that has a throttle or debounce.
+   * @param eventName The name of the event.
+   */
+  function getEventTiming(eventName: string) {
+    for (let state of StateTree.getActiveStates(snapshot.stateTree)) {
+      const timed = flatten(StateTree.getEventHandlers(state, eventName)).find(
+        (handler) =>
+          !isUndefined(handler.throttle) || !isUndefined(handler.debounce)
+      )
+
+      if (!isUndefined(timed)) {
+        return { state, throttle: timed.throttle, debounce: timed.debounce }
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Throttle or debounce an event, if needed. A throttled event is settled without being
+   * handled; a debounced event is held until no more events of its kind arrive for the
+   * debounce's duration, then queued again. Returns true if the event should be handled now.
+   * @param sent The event to throttle or debounce.
+   */
+  function applyEventTiming(sent: EventWithSettle) {
+    const timing = getEventTiming(sent.event)
+
+    if (isUndefined(timing)) return true
+
+    const { state, throttle, debounce } = timing
+    const key = state.path + ":" + sent.event
+
+    if (!isUndefined(debounce)) {
+      const pending = debounced.get(key)
+      const events = isUndefined(pending) ? [sent] : [...pending.events, sent]
+
+      if (!isUndefined(pending)) clock.clearTimeout(pending.timeout)
+
+      const timeout = clock.setTimeout(() => {
+        debounced.delete(key)
+
+        // Handle the last event, then settle all of the debounced events
+        eventsToProcess.push({
+          event: sent.event,
+          payload: sent.payload,
+          isTimed: true,
+          onSettle: (snapshot) =>
+            events.forEach((event) => event.onSettle(snapshot)),
+        })
+
+        if (queueState === "ready") {
+          processEventQueue()
+        }
+      }, debounce)
+
+      debounced.set(key, { timeout, events })
+      state.times.cancelDebounces = () => cancelDebounces(state)
+
+      return false
+    }
+
+    if (!isUndefined(throttle)) {
+      const now = clock.now()
+      const last = throttledAt.get(key)
+
+      if (!isUndefined(last) && now - last < throttle) {
+        eventsToResolve.push(sent)
+        return false
+      }
+
+      throttledAt.set(key, now)
+    }
+
+    return true
+  }
+
+  // The events held by active states' `defer`, in the order received
+  let deferredEvents: EventWithSettle[] = []
+
+  /**
+   * Should an event be held until the state enters a state that can handle it?
+   * @param eventName The name of the event.
+   */
+  function shouldDefer(eventName: string) {
+    return (
+      !StateTree.canHandleEvent(snapshot.stateTree, eventName) &&
+      StateTree.getActiveStates(snapshot.stateTree).some((state) =>
+        state.defer.includes(eventName)
+      )
+    )
+  }
+
+  /**
+   * Move any deferred events that can now be handled to the front of the queue,
+   * in the order they were received, and drop any that are no longer deferred.
+   */
+  function releaseDeferredEvents() {
+    const released: EventWithSettle[] = []
+
+    deferredEvents = deferredEvents.filter((deferred) => {
+      if (StateTree.canHandleEvent(snapshot.stateTree, deferred.event)) {
+        released.push(deferred)
+        return false
+      }
+
+      if (shouldDefer(deferred.event)) return true
+
+      if (queueState === "processing") {
+        eventsToResolve.push(deferred)
+      } else {
+        deferred.onSettle(snapshot)
+      }
+
+      return false
+    })
+
+    eventsToProcess.unshift(...released)
+  }
+
+  /**
+   * Get a view of the events and waits that the state has not yet finished handling.
+   */
+  function getQueue(): S.QueueView {
+    const toEvent = ({ event, payload }: S.Event) => ({ event, payload })
+
+    const debouncedEvents: S.Event[] = []
+
+    debounced.forEach(({ events }) =>
+      debouncedEvents.push(toEvent(events[events.length - 1]))
+    )
+
+    return {
+      pending: eventsToProcess.map(toEvent),
+      deferred: deferredEvents.map(toEvent),
+      debounced: debouncedEvents,
+      waits: flatMap(StateTree.getActiveStates(snapshot.stateTree), (state) =>
+        state.times.waits.map(({ delay, startedAt }) => ({
+          state: state.path,
+          delay,
+          startedAt,
+        }))
+      ),
+    }
+  }
+
+  /**
+   * Drop a state's debounced events, settling them without handling them.
+   * @param state The state that is being exited.
+   */
+  function cancelDebounces(state: S.State<D, V>) {
+    debounced.forEach((pending, key) => {
+      if (!key.startsWith(state.path + ":")) return
+
+      clock.clearTimeout(pending.timeout)
+      debounced.delete(key)
+      pending.events.forEach((event) => event.onSettle(snapshot))
+    })
+  }
+
   /**
    * Process the queue of received events. If no events are left, finish the
    * queue by (possibly) notifing subscribers, resolving processed events,
@@ -444,20 +1388,81 @@ export function createState<
 
       if (processingEvent === undefined) break
 
+      // Throttle or debounce the event, if its handler asks for it.
+
+      if (!processingEvent.isTimed && !applyEventTiming(processingEvent)) {
+        continue
+      }
+
+      // Hold the event if no state can handle it yet, but a state defers it.
+
+      if (shouldDefer(processingEvent.event)) {
+        deferredEvents.push({ ...processingEvent, isTimed: true })
+        continue
+      }
+
+      // Let plugins veto or transform the event before handling it.
+      // A vetoed event is not handled, but still settles.
+
+      const pluginEvent = runBeforeEventPlugins({
+        event: processingEvent.event,
+        payload: processingEvent.payload,
+      })
+
+      if (isUndefined(pluginEvent)) {
+        eventsToResolve.push(processingEvent)
+        continue
+      }
+
+      Object.assign(processingEvent, pluginEvent)
+
       // If we have an event to process, process it by handling it
       // on all active states, starting from the root state. Then add
       // it to the eventsToResolve array so we can resolve it later.
 
+      emit({
+        type: S.VerboseType.Event,
+        time: clock.now(),
+        event: processingEvent.event,
+        payload: processingEvent.payload,
+      })
+
+      isRecordingHistory = !nonUndoable.includes(processingEvent.event)
+
       const { shouldNotify } = handleEventOnState(
         snapshot.stateTree,
         processingEvent
       )
 
+      isRecordingHistory = true
+
       _log.unshift(processingEvent.event)
 
+      if (inspectors.size > 0) {
+        emit({
+          type: S.VerboseType.Queue,
+          time: clock.now(),
+          event: processingEvent.event,
+          payload: processingEvent.payload,
+          snapshot: serialize(),
+        })
+      }
+
       if (shouldNotify) processShouldNotify = true
 
+      plugins.forEach((plugin) =>
+        plugin.afterEvent?.(
+          { event: processingEvent.event, payload: processingEvent.payload },
+          snapshot
+        )
+      )
+
       eventsToResolve.push(processingEvent)
+
+      // The event may have entered states that can handle deferred events.
+      if (deferredEvents.length > 0) {
+        releaseDeferredEvents()
+      }
     }
 
     // Notify subscribers, if needed
@@ -497,7 +1502,11 @@ export function createState<
   let lastTime = -1
   let interval = -1
   let frameInterval: number | undefined = undefined
-  type OnFrameInfo = { payload: any; start: number }
+  type OnFrameInfo = {
+    eventName: string | undefined
+    payload: any
+    start: number
+  }
   const onFrameStates = new Map<S.State<D, V>, OnFrameInfo>([])
 
   /**
@@ -519,6 +1528,7 @@ export function createState<
         const outcome = runEventHandlerChain(
           state,
           state.repeat.onRepeat,
+          info.eventName,
           info.payload,
           {
             interval,
@@ -540,7 +1550,7 @@ export function createState<
 
     if (frameInterval === undefined) return
 
-    frameInterval = requestAnimationFrame(loop)
+    frameInterval = clock.requestAnimationFrame(loop)
   }
 
   /**
@@ -548,7 +1558,7 @@ export function createState<
    */
   function stopLoop() {
     if (frameInterval !== undefined) {
-      cancelAnimationFrame(frameInterval)
+      clock.cancelAnimationFrame(frameInterval)
       frameInterval = undefined
       lastTime = -1
       interval = -1
@@ -559,7 +1569,7 @@ export function createState<
    * Start the loop.
    */
   function startLoop() {
-    frameInterval = requestAnimationFrame(loop)
+    frameInterval = clock.requestAnimationFrame(loop)
   }
 
   /**
@@ -608,14 +1618,43 @@ export function createState<
     return () => unsubscribe(callbackFn)
   }
 
+  /**
+   * Subscribe a listener to a selected part of the state. On each update, the state will
+   * call the listener only if the selected value has changed, according to `isEqual`.
+   * Returns a function that unsubscribes the listener.
+   * @param selector A function that selects a value from the state.
+   * @param listener The callback to call with the newly selected value and the previous value.
+   * @param isEqual (optional) A function that compares the previous and next values. Defaults to `Object.is`.
+   * @public
+   * @example
+   * const stop = state.select((state) => state.data.count, (count) => console.log(count))
+   */
+  function select<T>(
+    selector: (state: Snapshot) => T,
+    listener: (selected: T, previous: T) => void,
+    isEqual: (a: T, b: T) => boolean = Object.is
+  ) {
+    let selected = selector(snapshot)
+
+    return onUpdate((update) => {
+      const next = selector(update)
+
+      if (isEqual(selected, next)) return
+
+      const previous = selected
+      selected = next
+      listener(next, previous)
+    })
+  }
+
   /**
    * Get an update from the current state without subscribing.
    * @param callbackFn
    * @public
    */
   function getUpdate(callbackFn: S.SubscriberFn<Snapshot>) {
-    setValues()
     setActiveStates()
+    setValues()
     setLog()
     callbackFn(snapshot)
   }
@@ -643,6 +1682,30 @@ export function createState<
     return promise
   }
 
+  /**
+   * Send an event to be processed before any events already in the queue. The event will
+   * not be throttled or debounced.
+   * @param eventName The name of the event
+   * @param payload A payload of any type
+   * @public
+   * @example
+   * state.sendNow("CANCELLED")
+   */
+  function sendNow(eventName: string, payload?: any): Promise<Snapshot> {
+    return new Promise<Snapshot>((resolve) => {
+      eventsToProcess.unshift({
+        event: eventName,
+        payload,
+        isTimed: true,
+        onSettle: resolve,
+      })
+
+      if (queueState === "ready") {
+        processEventQueue()
+      }
+    })
+  }
+
   // Memoized calls to `send` when payloads aren't needed.
 
   const sendCache = new Map<
@@ -679,7 +1742,8 @@ export function createState<
       .map((path) => (path.startsWith(".") ? path : "." + path))
       .every(
         (path) =>
-          _activeStates.find((state) => state.path.endsWith(path)) !== undefined
+          _activePaths.find((activePath) => activePath.endsWith(path)) !==
+          undefined
       )
   }
 
@@ -699,7 +1763,8 @@ export function createState<
       .map((path) => (path.startsWith(".") ? path : "." + path))
       .some(
         (path) =>
-          _activeStates.find((state) => state.path.endsWith(path)) !== undefined
+          _activePaths.find((activePath) => activePath.endsWith(path)) !==
+          undefined
       )
   }
 
@@ -712,23 +1777,25 @@ export function createState<
   function can(eventName: string, payload?: any, result?: any): boolean {
     return !isUndefined(
       _activeStates.find((state) => {
-        const eventHandler = state.on[eventName]
-        if (isUndefined(eventHandler)) return
+        const context = getEventContext(state, eventName)
 
-        return eventHandler.some((handler) => {
-          result = undefined
+        return flatten(StateTree.getEventHandlers(state, eventName)).some(
+          (handler) => {
+            result = undefined
 
-          for (let resu of handler.get) {
-            result = resu(snapshot.data as D, payload, result)
-          }
+            for (let resu of handler.get) {
+              result = resu(snapshot.data as D, payload, result, context)
+            }
 
-          return testEventHandlerConditions(
-            handler,
-            snapshot.data,
-            payload,
-            result
-          )
-        })
+            return testEventHandlerConditions(
+              handler,
+              snapshot.data,
+              payload,
+              result,
+              context
+            )
+          }
+        )
       })
     )
   }
@@ -753,9 +1820,9 @@ export function createState<
         entries.push([key, v])
       } else {
         if (
-          _activeStates.find((v) => {
+          _activePaths.find((v) => {
             let safeKey = key.startsWith(".") ? key : "." + key
-            return v.path.endsWith(safeKey)
+            return v.endsWith(safeKey)
           })
         ) {
           entries.push([key, v])
@@ -803,11 +1870,102 @@ export function createState<
    * @public
    */
   function clone() {
-    return createState(design)
+    return createState<D, R, C, A, Y, T, V, E, Z, X, O>(design, {
+      clock: options.clock,
+      plugins: options.plugins,
+      history: options.history,
+    })
+  }
+
+  /**
+   * Get a plain snapshot of the state's data, active states, histories and log. Pass this snapshot to `createState` as the `hydrateFrom` option to restore the state later.
+   * @public
+   * @example
+   * localStorage.setItem("state", JSON.stringify(state.serialize()))
+   * const restored = createState(design, { hydrateFrom: JSON.parse(localStorage.getItem("state")) })
+   */
+  function serialize(): S.SerializedState<D> {
+    return {
+      data: snapshot.data,
+      active: StateTree.getActiveStates(snapshot.stateTree).map((state) =>
+        StateTree.getRelativePath(state)
+      ),
+      history: StateTree.getHistories(snapshot.stateTree),
+      log: [..._log],
+    }
+  }
+
+  /**
+   * Restore the state tree, data and log from a serialized snapshot. This will not run
+   * any onEnter events or asyncs, though active states will resume their repeat events and
+   * restart their after events and services.
+   * @param serialized A snapshot returned by `serialize`.
+   */
+  function restore(serialized: S.SerializedState<D>) {
+    for (let path of serialized.active) {
+      if (
+        isUndefined(StateTree.findStateByRelativePath(snapshot.stateTree, path))
+      ) {
+        throw Error(`No state with that path (${path}) in the tree!`)
+      }
+    }
+
+    stopLoop()
+    StateTree.recursivelyEndStateIntervals(snapshot.stateTree, clock)
+
+    snapshot.data = produce(serialized.data, (d) => d) as D
+    _log = [...serialized.log]
+
+    StateTree.setIntitialStates(
+      snapshot.stateTree,
+      undefined,
+      snapshot.data,
+      (state) => getEventContext(state, undefined)
+    )
+    StateTree.hydrateState(
+      snapshot.stateTree,
+      serialized.active,
+      serialized.history
+    )
+
+    for (let state of StateTree.getActiveStates(snapshot.stateTree)) {
+      if (!isUndefined(state.repeat)) {
+        startRepeat(state, state.repeat, undefined, undefined, undefined)
+      }
+
+      if (!isUndefined(state.after)) {
+        startAfterEvents(state, state.after, undefined, undefined, undefined)
+      }
+
+      if (!isUndefined(state.service)) {
+        startServices(state, state.service, undefined)
+      }
+
+      if (!isUndefined(state.machine)) {
+        startChildMachine(state, state.machine)
+      }
+    }
+  }
+
+  /**
+   * Restore the state from a serialized snapshot, then notify subscribers.
+   * @param serialized A snapshot returned by `serialize`.
+   * @public
+   * @example
+   * const saved = state.serialize()
+   * state.hydrate(saved)
+   */
+  function hydrate(serialized: S.SerializedState<D>) {
+    const prev = snapshot.data
+    restore(serialized)
+    recordDataReplacement(prev)
+    clearHistory()
+    notifySubscribers()
+    return snapshot
   }
 
-  function forceTransition(target: string, payload?: string) {
-    runTransition(target, payload, undefined)
+  function forceTransition(target: string | string[], payload?: string) {
+    runTransition(castArray(target), undefined, payload, undefined)
     notifySubscribers()
     return snapshot
   }
@@ -816,8 +1974,9 @@ export function createState<
    * Reset state based on original design.
    */
   function reset(): Snapshot {
+    const prev = snapshot.data
     stopLoop()
-    StateTree.recursivelyEndStateIntervals(snapshot.stateTree)
+    StateTree.recursivelyEndStateIntervals(snapshot.stateTree, clock)
     _log = []
 
     Object.assign(snapshot, {
@@ -827,7 +1986,11 @@ export function createState<
     })
 
     StateTree.deactivateState(snapshot.stateTree)
-    runTransition("root", undefined, undefined) // Will onEnter events matter?
+    runTransition(["root"], undefined, undefined, undefined) // Will onEnter events matter?
+    updatePatches = []
+    updateInversePatches = []
+    recordDataReplacement(prev)
+    clearHistory()
     notifySubscribers()
 
     return snapshot
@@ -835,13 +1998,22 @@ export function createState<
 
   /* --------------------- Kickoff -------------------- */
 
-  type Snapshot = S.DesignedState<D, ReturnedValues<D, V>>
+  type Snapshot = S.DesignedState<
+    D,
+    ReturnedValues<D, V>,
+    E,
+    S.StatePath<X>,
+    S.TransitionStatePath<X>
+  >
+
+  const clock = options.clock || defaultClock
 
   const id = "#" + (isUndefined(design.id) ? `state_${uniqueId()}` : design.id)
   const initialStateTree = getStateTreeFromDesign(design, id)
 
   let _log: string[] = []
   let _activeStates = StateTree.getActiveStates(initialStateTree)
+  let _activePaths = StateTree.getActivePaths(initialStateTree)
 
   const snapshot: Snapshot = {
     id,
@@ -850,6 +2022,7 @@ export function createState<
     stateTree: initialStateTree,
     log: _log,
     send,
+    sendNow,
     thenSend,
     isIn,
     isInAny,
@@ -858,18 +2031,42 @@ export function createState<
     getDesign,
     onUpdate,
     getUpdate,
+    select,
     clone,
     reset,
     forceTransition,
-    values: getValues(design.data as D, design.values),
+    serialize,
+    hydrate,
+    inspect,
+    get queue() {
+      return getQueue()
+    },
+    history: undoStack,
+    canUndo: false,
+    canRedo: false,
+    undo,
+    redo,
+    patches: [],
+    inversePatches: [],
+    changedPaths: [],
+    values: {} as ReturnedValues<D, V>,
+    valueErrors: {},
   }
 
-  // Deactivate the tree, then activate it again to set initial active states.
-  StateTree.deactivateState(snapshot.stateTree)
-  runTransition("root", undefined, undefined) // Will onEnter events matter?
+  if (isUndefined(options.hydrateFrom)) {
+    // Deactivate the tree, then activate it again to set initial active states.
+    StateTree.deactivateState(snapshot.stateTree)
+    runTransition(["root"], undefined, undefined, undefined) // Will onEnter events matter?
+  } else {
+    // Restore active states, histories and data from the snapshot.
+    restore(options.hydrateFrom)
+  }
+
+  clearHistory()
+  setActiveStates()
   setValues()
   setLog()
-  setActiveStates()
+  setPatches()
 
   return snapshot
 }
@@ -887,18 +2084,52 @@ function getPaths<D, V>(states: S.State<D, V>[]) {
 }
 
 /**
- * Compute values based on the current data. A horrible affront to typescript.
- * @param data The current data state.
+ * Create the error passed to an async event's onReject handler when its async times out.
+ * @param seconds The timeout that the async exceeded.
+ */
+function createAsyncTimeoutError(seconds: number): S.AsyncTimeoutError {
+  const error = Error(
+    `The async did not settle within its timeout (${seconds}s)!`
+  ) as S.AsyncTimeoutError
+
+  error.name = "AsyncTimeoutError"
+  error.timeout = seconds
+
+  return error
+}
+
+/**
+ * Create a controller for aborting an async. Where AbortController is not available
+ * (as in Node before version 15), fall back to a minimal controller whose signal
+ * supports `aborted`, `onabort` and listeners for the abort event.
  */
-function getValues<D, V extends Record<string, S.Value<D>>>(
-  data: D,
-  values: V | undefined
-): S.Values<D, V> {
-  return Object.entries(values || {}).reduce<S.Values<D, V>>(
-    (acc, [key, fn]) => {
-      acc[key as keyof V] = fn(data as D)
-      return acc
+function createAbortController(): { signal: AbortSignal; abort: () => void } {
+  if (typeof AbortController !== "undefined") return new AbortController()
+
+  type Listener = (event: { type: "abort"; target: any }) => void
+
+  const listeners = new Set<Listener>()
+
+  const signal = {
+    aborted: false,
+    onabort: null as Listener | null,
+    addEventListener: (type: string, listener: Listener) => {
+      if (type === "abort") listeners.add(listener)
+    },
+    removeEventListener: (type: string, listener: Listener) => {
+      if (type === "abort") listeners.delete(listener)
+    },
+  }
+
+  return {
+    signal: (signal as unknown) as AbortSignal,
+    abort: () => {
+      if (signal.aborted) return
+      signal.aborted = true
+
+      const event = { type: "abort" as const, target: signal }
+      signal.onabort?.(event)
+      listeners.forEach((listener) => listener(event))
     },
-    {} as S.Values<D, V>
-  )
+  }
 }
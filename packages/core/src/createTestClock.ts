@@ -0,0 +1,132 @@
+import * as S from "./types"
+
+/* -------------------------------------------------- */
+/*                       Clocks                       */
+/* -------------------------------------------------- */
+
+/**
+ * The clock used when no clock is provided. Reads the environment's timers
+ * when called, so that mocked timers still apply. Where requestAnimationFrame
+ * is not available (such as on a server), frames fall back to timeouts.
+ */
+export const defaultClock: S.Clock = {
+  now: () =>
+    typeof performance === "undefined" ? Date.now() : performance.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (id) => clearTimeout(id),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (id) => clearInterval(id),
+  requestAnimationFrame: (callback) =>
+    typeof requestAnimationFrame === "undefined"
+      ? setTimeout(() => callback(defaultClock.now()), 1000 / 60)
+      : requestAnimationFrame(callback),
+  cancelAnimationFrame: (id) =>
+    typeof cancelAnimationFrame === "undefined"
+      ? clearTimeout(id)
+      : cancelAnimationFrame(id),
+}
+
+type ScheduledTimer = {
+  id: number
+  at: number
+  callback: (ms: number) => void
+  interval?: number
+  isFrame: boolean
+}
+
+/**
+ * Create a virtual clock that only moves when told to. Pass the clock to
+ * `createState` to step through waits and repeat events deterministically.
+ * @public
+ * @example
+ * const clock = createTestClock()
+ * const state = createState(design, { clock })
+ * state.send("STARTED")
+ * clock.advance(1000)
+ */
+export function createTestClock(): S.TestClock {
+  let time = 0
+  let nextId = 1
+  let timers: ScheduledTimer[] = []
+
+  function schedule(
+    callback: (ms: number) => void,
+    ms: number,
+    interval?: number,
+    isFrame = false
+  ) {
+    const id = nextId++
+    timers.push({ id, at: time + Math.max(0, ms), callback, interval, isFrame })
+    return id
+  }
+
+  function cancel(id: number) {
+    timers = timers.filter((timer) => timer.id !== id)
+  }
+
+  /**
+   * Get the next timer due at or before a given time. Timers due at the same
+   * time run in the order that they were scheduled.
+   * @param until The latest time to consider.
+   * @param predicate (optional) A filter for timers to consider.
+   */
+  function getNextTimer(
+    until: number,
+    predicate: (timer: ScheduledTimer) => boolean = () => true
+  ) {
+    let next: ScheduledTimer | undefined = undefined
+
+    for (let timer of timers) {
+      if (timer.at > until || !predicate(timer)) continue
+      if (next === undefined || timer.at < next.at) next = timer
+    }
+
+    return next
+  }
+
+  function advance(ms: number) {
+    const target = time + ms
+    let timer = getNextTimer(target)
+
+    while (timer !== undefined) {
+      time = timer.at
+
+      if (timer.interval === undefined) {
+        cancel(timer.id)
+      } else {
+        timer.at += Math.max(1, timer.interval)
+      }
+
+      timer.callback(time)
+      timer = getNextTimer(target)
+    }
+
+    time = target
+  }
+
+  function runAllTimers() {
+    const isTimeout = (timer: ScheduledTimer) =>
+      timer.interval === undefined && !timer.isFrame
+
+    for (let i = 0; i < 1000; i++) {
+      const timer = getNextTimer(Infinity, isTimeout)
+      if (timer === undefined) return
+      advance(timer.at - time)
+    }
+
+    throw Error("Ran 1000 timeouts without running out of timeouts!")
+  }
+
+  return {
+    now: () => time,
+    setTimeout: (callback, ms) => schedule(callback, ms),
+    clearTimeout: cancel,
+    setInterval: (callback, ms) => schedule(callback, ms, ms),
+    clearInterval: cancel,
+    requestAnimationFrame: (callback) =>
+      schedule(callback, 1000 / 60, undefined, true),
+    cancelAnimationFrame: cancel,
+    advance,
+    runAllTimers,
+  }
+}
@@ -0,0 +1,260 @@
+import { isPlainObject, isUndefined } from "lodash"
+import * as S from "./types"
+
+/* -------------------------------------------------- */
+/*                       Values                       */
+/* -------------------------------------------------- */
+
+type Read = { path: PropertyKey[]; value: any }
+
+type ValueCacheEntry = {
+  value: any
+  error?: Error
+  // The data read by the value, by path
+  reads: Map<string, Read>
+  // The other values read by the value, with the results it received
+  values: Map<string, any>
+  // The active paths, if the value read them
+  active?: string
+}
+
+/**
+ * Create a cache for a design's values. Each value is memoized: it will only be recomputed
+ * when the data, active states or other values that it read in its last computation have
+ * changed. Reads from the data are tracked through proxies, so values should not keep or
+ * mutate the data that they receive.
+ * @param values The design's values.
+ */
+export function createValueCache<D>(values: Record<string, S.Value<D>> = {}) {
+  let cache = new Map<string, ValueCacheEntry>()
+
+  /**
+   * Get the current results of each value, along with any errors thrown while computing them.
+   * @param data The state's current data.
+   * @param active The state's current active paths.
+   * @param isIn A function that tests whether the state is in the given paths.
+   */
+  function getValues(
+    data: D,
+    active: string[],
+    isIn: (...paths: string[]) => boolean
+  ) {
+    const next = new Map<string, ValueCacheEntry>()
+    const computing = new Set<string>()
+    const activeKey = active.join(" ")
+
+    function getEntry(name: string): ValueCacheEntry {
+      const computed = next.get(name)
+
+      if (!isUndefined(computed)) return computed
+
+      if (computing.has(name)) {
+        throw Error(`The value ${name} depends on itself!`)
+      }
+
+      computing.add(name)
+
+      try {
+        const prev = cache.get(name)
+
+        const entry =
+          isUndefined(prev) || !isUndefined(prev.error) || hasChanged(prev)
+            ? computeEntry(name)
+            : prev
+
+        next.set(name, entry)
+        return entry
+      } finally {
+        computing.delete(name)
+      }
+    }
+
+    function hasChanged(entry: ValueCacheEntry) {
+      if (!isUndefined(entry.active) && entry.active !== activeKey) {
+        return true
+      }
+
+      return (
+        Array.from(entry.values).some(
+          ([name, value]) => !Object.is(getEntry(name).value, value)
+        ) ||
+        Array.from(entry.reads.values()).some(
+          (read) => !Object.is(getAtPath(data, read.path), read.value)
+        )
+      )
+    }
+
+    function computeEntry(name: string): ValueCacheEntry {
+      const entry: ValueCacheEntry = {
+        value: undefined,
+        reads: new Map([]),
+        values: new Map([]),
+      }
+
+      const context: S.ValueContext = {
+        values: Object.keys(values).reduce<Record<string, any>>((acc, key) => {
+          Object.defineProperty(acc, key, {
+            enumerable: true,
+            get: () => {
+              const { value } = getEntry(key)
+              entry.values.set(key, value)
+              return value
+            },
+          })
+          return acc
+        }, {}),
+        get active() {
+          entry.active = activeKey
+          return active
+        },
+        isIn: (...paths) => {
+          entry.active = activeKey
+          return isIn(...paths)
+        },
+      }
+
+      const targets = new WeakMap<object, object>()
+
+      try {
+        entry.value = unwrap(
+          values[name](trackReads(data, [], entry.reads, targets), context),
+          targets
+        )
+      } catch (error) {
+        entry.error = error
+      }
+
+      return entry
+    }
+
+    const results: Record<string, any> = {}
+    const errors: Record<string, Error> = {}
+
+    for (let name in values) {
+      const { value, error } = getEntry(name)
+      results[name] = value
+      if (!isUndefined(error)) errors[name] = error
+    }
+
+    cache = next
+
+    return { values: results, errors }
+  }
+
+  return { getValues }
+}
+
+/* -------------------------------------------------- */
+/*                        Pure                        */
+/* -------------------------------------------------- */
+
+/**
+ * Get the value at a path in an object.
+ * @param object
+ * @param path
+ */
+function getAtPath(object: any, path: PropertyKey[]) {
+  return path.reduce(
+    (acc, key) => (acc === null || acc === undefined ? undefined : acc[key]),
+    object
+  )
+}
+
+/**
+ * Can a value be wrapped in a proxy that tracks reads? Frozen objects
+ * can't be wrapped, but they also can't change.
+ * @param value
+ */
+function isTrackable(value: any): value is object {
+  return (
+    typeof Proxy !== "undefined" &&
+    (isPlainObject(value) || Array.isArray(value)) &&
+    !Object.isFrozen(value)
+  )
+}
+
+/**
+ * Wrap a value in a proxy that records the path and result of each read.
+ * @param value The value to wrap.
+ * @param path The path to the value.
+ * @param reads The map in which to record reads.
+ * @param targets A map of the created proxies to their targets.
+ */
+function trackReads(
+  value: any,
+  path: PropertyKey[],
+  reads: Map<string, Read>,
+  targets: WeakMap<object, object>
+): any {
+  if (!isTrackable(value)) return value
+
+  function record(path: PropertyKey[], value: any) {
+    reads.set(path.map(String).join("\u0000"), { path, value })
+  }
+
+  const proxies = new Map<PropertyKey, any>()
+
+  const proxy = new Proxy(value, {
+    get(target, key, receiver) {
+      const result = Reflect.get(target, key, receiver)
+
+      if (typeof key === "symbol") return result
+
+      record([...path, key], result)
+
+      if (!isTrackable(result)) return result
+
+      let child = proxies.get(key)
+
+      if (isUndefined(child) || targets.get(child) !== result) {
+        child = trackReads(result, [...path, key], reads, targets)
+        proxies.set(key, child)
+      }
+
+      return child
+    },
+    has(target, key) {
+      record(path, target)
+      return Reflect.has(target, key)
+    },
+    ownKeys(target) {
+      record(path, target)
+      return Reflect.ownKeys(target)
+    },
+  })
+
+  targets.set(proxy, value)
+
+  return proxy
+}
+
+/**
+ * Replace any tracking proxies in a value's result with their targets.
+ * Only objects and arrays created by the value are changed.
+ * @param value The value's result.
+ * @param targets A map of the created proxies to their targets.
+ * @param visited The objects already unwrapped.
+ */
+function unwrap(
+  value: any,
+  targets: WeakMap<object, object>,
+  visited = new Set<object>()
+): any {
+  if (!isPlainObject(value) && !Array.isArray(value)) return value
+
+  const target = targets.get(value)
+
+  if (!isUndefined(target)) return target
+
+  if (visited.has(value) || Object.isFrozen(value)) return value
+
+  visited.add(value)
+
+  for (let key of Object.keys(value)) {
+    const child = value[key]
+    const unwrapped = unwrap(child, targets, visited)
+    if (unwrapped !== child) value[key] = unwrapped
+  }
+
+  return value
+}
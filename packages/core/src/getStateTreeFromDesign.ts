@@ -35,11 +35,11 @@ export function getStateTreeFromDesign<
    * @param collection
    * @param collectionName
    */
-  function getEventFn<T, K>(
-    item: Extract<keyof T, string> | S.EventFn<D, K>,
-    collection: Record<string, S.EventFn<D, K>> | undefined,
+  function getEventFn<T, F extends (...args: any[]) => any>(
+    item: Extract<keyof T, string> | F,
+    collection: Record<string, F> | undefined,
     collectionName: string
-  ): S.EventFn<D, K> {
+  ): F {
     if (isString(item)) {
       if (isUndefined(collection)) {
         throw Error(`No ${collectionName} in config!`)
@@ -102,6 +102,10 @@ export function getStateTreeFromDesign<
     return getEventFn(item, config.asyncs, "asyncs")
   }
 
+  function getService(item: S.ServiceDesign<D, Record<string, S.Service<D>>>) {
+    return getEventFn(item, config.services, "services")
+  }
+
   function getTime(item: S.TimeDesign<D, T> | undefined) {
     if (isUndefined(item)) return undefined
 
@@ -118,6 +122,23 @@ export function getStateTreeFromDesign<
     return castToNamedFunction(item)
   }
 
+  /**
+   * Convert an after config into delayed events. Keys may be a number of seconds or the name of an item in times.
+   * @param after
+   */
+  function getAfterEvents(
+    after: S.AfterEventsDesign<D, R, C, A, T>
+  ): S.AfterEvent<D>[] {
+    return Object.entries(
+      after as Record<string, S.EventHandlerDesign<D, R, C, A, T>>
+    ).map(([key, eventHandler]) => ({
+      delay: isNaN(Number(key))
+        ? getEventFn(key, times, "times")
+        : castToNamedFunction(Number(key)),
+      eventHandler: getEventHandler(eventHandler),
+    }))
+  }
+
   /**
    * Convert an event handler item config into an event handler item.
    * @param itemCfg
@@ -140,6 +161,8 @@ export function getStateTreeFromDesign<
       break: castToFunction(itemCfg.break),
       then: itemCfg.then ? getEventHandler(itemCfg.then) : undefined,
       else: itemCfg.else ? getEventHandler(itemCfg.else) : undefined,
+      throttle: itemCfg.throttle,
+      debounce: itemCfg.debounce,
     }
   }
 
@@ -170,6 +193,18 @@ export function getStateTreeFromDesign<
     })
   }
 
+  /**
+   * Convert a `machine` property into a child machine.
+   * @param item
+   */
+  function getMachine(item: S.MachineDesign<D, R, C, A, T>): S.Machine<D> {
+    return {
+      design: item.design,
+      final: isUndefined(item.final) ? [] : castArray(item.final),
+      onDone: item.onDone ? getEventHandler(item.onDone) : undefined,
+    }
+  }
+
   /**
    * Convert an `initial` property (if present) into an initial state.
    * @param initial The provided design for the state's initial state. Either a string or an object design (with or without logic).
@@ -236,6 +271,18 @@ export function getStateTreeFromDesign<
       )
     }
 
+    if (state.final && state.states !== undefined) {
+      throw Error(
+        `In ${path + name}, you've marked a state as final but it has states!`
+      )
+    }
+
+    if (state.onDone !== undefined && state.states === undefined) {
+      throw Error(
+        `In ${path + name}, you've provided an onDone event but no states!`
+      )
+    }
+
     const type = state.states ? (state.initial ? "branch" : "parallel") : "leaf"
 
     return {
@@ -245,11 +292,13 @@ export function getStateTreeFromDesign<
       parentType,
       depth,
       path: path + name,
+      final: !!state.final,
       active,
       activeId: 0,
       history: [],
       times: {
         timeouts: [],
+        waits: [],
         interval: undefined,
         animationFrame: undefined,
       },
@@ -258,27 +307,37 @@ export function getStateTreeFromDesign<
       onEnter: state.onEnter ? getEventHandler(state.onEnter) : undefined,
       onExit: state.onExit ? getEventHandler(state.onExit) : undefined,
       onEvent: state.onEvent ? getEventHandler(state.onEvent) : undefined,
+      onDone: state.onDone ? getEventHandler(state.onDone) : undefined,
       async: state.async
-        ? {
-            await: getAsync(state.async.await),
-            onResolve: getEventHandler(state.async.onResolve),
-            onReject: state.async.onReject
-              ? getEventHandler(state.async.onReject)
+        ? castArray(state.async).map((asyncEvent) => ({
+            await: getAsync(asyncEvent.await),
+            onResolve: getEventHandler(asyncEvent.onResolve),
+            onReject: asyncEvent.onReject
+              ? getEventHandler(asyncEvent.onReject)
               : undefined,
-          }
+            onProgress: asyncEvent.onProgress
+              ? getEventHandler(asyncEvent.onProgress)
+              : undefined,
+            timeout: getTime(asyncEvent.timeout),
+          }))
+        : undefined,
+      service: state.service
+        ? castArray(state.service).map(getService)
         : undefined,
+      defer: state.defer || [],
+      machine: state.machine ? getMachine(state.machine) : undefined,
       repeat: state.repeat
         ? {
             onRepeat: getEventHandler(state.repeat.onRepeat),
             delay: state.repeat.delay ? getTime(state.repeat.delay) : undefined,
           }
         : undefined,
+      after: state.after ? getAfterEvents(state.after) : undefined,
       on: Object.fromEntries(
         state.on
-          ? Object.entries(state.on).map(([name, event]) => [
-              name,
-              getEventHandler(event),
-            ])
+          ? Object.entries(
+              state.on as Record<string, S.EventHandlerDesign<D, R, C, A, T>>
+            ).map(([name, event]) => [name, getEventHandler(event)])
           : []
       ),
       states: Object.fromEntries(
@@ -1,5 +1,24 @@
 import * as S from "./types"
 import { createDesign } from "./createDesign"
 import { createState } from "./createState"
+import { createTestClock } from "./createTestClock"
+import { connectDevtools, createMemoryDevtools } from "./connectDevtools"
+import { validateDesign } from "./validateDesign"
+import {
+  createPersistence,
+  createMemoryStorage,
+  createLocalStorage,
+} from "./createPersistence"
 
-export { S, createDesign, createState }
+export {
+  S,
+  createDesign,
+  createState,
+  createTestClock,
+  connectDevtools,
+  createMemoryDevtools,
+  validateDesign,
+  createPersistence,
+  createMemoryStorage,
+  createLocalStorage,
+}
@@ -1,4 +1,4 @@
-import { forEach, isUndefined, last } from "lodash"
+import { escapeRegExp, forEach, isUndefined, last } from "lodash"
 import { testEventHandlerConditions } from "./testEventHandlerConditions"
 import * as S from "./types"
 
@@ -35,60 +35,239 @@ export function getActiveStates<D = any>(state: S.State<D, unknown>) {
 }
 
 /**
- * Activate a state based on a path. This function will recursively activate all states in the path,
- * as well as children of those states as necessary. You should only call this on the root of
- * the state tree. See notes on ACTIVATING STATES.
+ * Get the paths of all active states in the current tree, including the active
+ * states of any child machines. A child machine's paths begin with the path of
+ * the state that created it, e.g. `#parent.root.loading.fetching`.
+ * Works recursively, so you should only call this on the state tree's root.
+ *
+ * @param state The current state to examine.
+ */
+export function getActivePaths<D = any>(state: S.State<D, unknown>) {
+  const acc: string[] = []
+
+  for (let activeState of getActiveStates(state)) {
+    acc.push(activeState.path)
+
+    if (activeState.child !== undefined) {
+      for (let childPath of getActivePaths(activeState.child.state.stateTree)) {
+        const segments = childPath.split(".").slice(2)
+        if (segments.length === 0) continue
+        acc.push(activeState.path + "." + segments.join("."))
+      }
+    }
+  }
+
+  return acc
+}
+
+/**
+ * Get whether a state is done. A leaf state is done if it is final; a branch state
+ * is done if its active child state is done; and a parallel state is done if all
+ * of its child states are done. Only call this on active states.
+ *
+ * @param state The state to examine.
+ */
+export function isStateDone<D = any>(state: S.State<D, unknown>): boolean {
+  const children = Object.values(state.states)
+
+  switch (state.type) {
+    case "leaf": {
+      return state.final
+    }
+    case "branch": {
+      const activeChild = children.find((child) => child.active)
+      return activeChild !== undefined && isStateDone(activeChild)
+    }
+    case "parallel": {
+      return children.every((child) => isStateDone(child))
+    }
+  }
+}
+
+/**
+ * Does an event pattern (an `on` key containing a `*`) match an event's name?
+ *
+ * @param pattern The pattern, such as `*` or `MOVED_*`.
+ * @param eventName The name of the event.
+ */
+export function matchesEventPattern(pattern: string, eventName: string) {
+  const parts = pattern.split("*")
+
+  if (parts.length === 1) return false
+
+  return new RegExp(`^${parts.map(escapeRegExp).join(".*")}$`).test(eventName)
+}
+
+/**
+ * Get a state's event handlers for an event: first the handler for the event's name (if any),
+ * then the handlers for any patterns that match it, in the order they were designed.
+ *
+ * @param state The state to examine.
+ * @param eventName The name of the event.
+ */
+export function getEventHandlers<D = any>(
+  state: S.State<D, unknown>,
+  eventName: string
+): S.EventHandler<D>[] {
+  const handlers = Object.keys(state.on)
+    .filter((key) => key !== eventName && matchesEventPattern(key, eventName))
+    .map((key) => state.on[key])
+
+  const handler = state.on[eventName]
+
+  return isUndefined(handler) ? handlers : [handler, ...handlers]
+}
+
+/**
+ * Get whether any active state (or any active state in a child machine) has a handler for an event.
+ * Works recursively, so you should only call this on the state tree's root.
+ *
+ * @param state The current state to examine.
+ * @param eventName The name of the event.
+ */
+export function canHandleEvent<D = any>(
+  state: S.State<D, unknown>,
+  eventName: string
+): boolean {
+  return getActiveStates(state).some(
+    (activeState) =>
+      getEventHandlers(activeState, eventName).length > 0 ||
+      (activeState.child !== undefined &&
+        canHandleEvent(activeState.child.state.stateTree, eventName))
+  )
+}
+
+/**
+ * Activate a state based on the paths to one or more target states. This function will
+ * recursively activate all states in the paths, as well as children of those states as
+ * necessary. You should only call this on the root of the state tree. See notes on
+ * ACTIVATING STATES.
  *
  * @param state The current state to activate.
- * @param path An array of state names.
+ * @param targets An array of targets, each with an array of state names and whether to restore them.
  * @param before An array of states that were previously active.
- * @param prev Whether we should try to restore this state.
- * @param deep Whether we should also try to restore descendant states.
  */
 export function activateState<D, V>(
   state: S.State<D, V>,
-  path: string[],
-  before: S.State<D, V>[],
-  prev: boolean,
-  deep: boolean
+  targets: S.TransitionTarget[],
+  before: S.State<D, V>[]
 ) {
-  let isTarget = false
   state.active = true
 
-  if (state.name === path[0]) {
-    path.shift()
-    if (path.length === 0) {
-      isTarget = true
-    }
-  }
+  let isTarget = false
+
+  // Keep only the targets inside of this state's subtree (including those
+  // already reached by an ancestor), moving along the paths that pass through it.
+  targets = targets
+    .filter(
+      (target) => target.path.length === 0 || target.path[0] === state.name
+    )
+    .map((target) => {
+      if (target.path.length === 0) return target
+      if (target.path.length === 1) isTarget = true
+      return { ...target, path: target.path.slice(1) }
+    })
 
   if (state.initial === undefined) {
     // Skipping Parallel
-    forEach(state.states, (c) => activateState(c, path, before, prev, deep))
-  } else if (prev && path.length === 0) {
-    // Restoring target (down-tree from target)
-    const c = state.states[last(state.history) || state.initial]
-    activateState(c, path, before, deep, deep)
-  } else if (state.states[path[0]] !== undefined) {
+    forEach(state.states, (c) => activateState(c, targets, before))
+    return
+  }
+
+  const nextInPath = targets.find(
+    (target) => state.states[target.path[0]] !== undefined
+  )
+
+  if (nextInPath !== undefined) {
     // Activating Next in Path
-    const c = state.states[path[0]]
+    const c = state.states[nextInPath.path[0]]
     state.history.push(c.name)
-    activateState(c, path, before, prev, deep)
+    activateState(c, targets, before)
+  } else if (targets.some((t) => t.prev && t.path.length === 0)) {
+    // Restoring target (down-tree from target)
+    const c = state.states[last(state.history) || state.initial]
+    activateState(
+      c,
+      targets.map((t) =>
+        t.path.length === 0 ? { ...t, prev: t.deep, deep: t.deep } : t
+      ),
+      before
+    )
   } else if (!isTarget && before.includes(state)) {
     // Restoring Unrelated (not target, not in path branch)
     const c = state.states[last(state.history) || state.initial]
-    activateState(c, path, before, false, false)
+    activateState(c, targets.map(withoutRestore), before)
   } else {
     // Activating Initial
     const c = state.states[state.initial]
     state.history.push(c.name)
-    activateState(c, path, before, false, false)
+    activateState(c, targets.map(withoutRestore), before)
   }
 }
 
+function withoutRestore(target: S.TransitionTarget): S.TransitionTarget {
+  return { ...target, prev: false, deep: false }
+}
+
+/**
+ * Get the deepest state that contains both of two states.
+ * Call this function on the state tree's root.
+ *
+ * @param state The state tree's root.
+ * @param a
+ * @param b
+ */
+export function getCommonAncestor<D = any>(
+  state: S.State<D, unknown>,
+  a: S.State<D, unknown>,
+  b: S.State<D, unknown>
+) {
+  const segmentsA = a.path.split(".").slice(2)
+  const segmentsB = b.path.split(".").slice(2)
+
+  let ancestor = state
+
+  for (let i = 0; i < Math.min(segmentsA.length, segmentsB.length); i++) {
+    if (segmentsA[i] !== segmentsB[i]) break
+    ancestor = ancestor.states[segmentsA[i]]
+  }
+
+  return ancestor
+}
+
+/**
+ * Find two target states that cannot both be active, because they are
+ * different children (or descendants of different children) of the same
+ * branch state. Call this function on the state tree's root.
+ *
+ * @param state The state tree's root.
+ * @param targets The target states of a transition.
+ */
+export function findConflictingTargets<D = any>(
+  state: S.State<D, unknown>,
+  targets: S.State<D, unknown>[]
+) {
+  for (let i = 0; i < targets.length; i++) {
+    for (let j = i + 1; j < targets.length; j++) {
+      const a = targets[i]
+      const b = targets[j]
+
+      const ancestor = getCommonAncestor(state, a, b)
+
+      if (ancestor === a || ancestor === b) continue
+
+      if (ancestor.type === "branch") {
+        return { a, b, ancestor }
+      }
+    }
+  }
+
+  return undefined
+}
+
 /**
  * Find all valid targets that match the provided path. Recursively searches the
- * state and its descendants, so you should only call this on the state tree's root.
+ * state and its descendants, so you may call this on any state to search within it.
  *
  * @param state
  * @param path
@@ -112,38 +291,144 @@ export function findTransitionTargets<D = any>(
   return acc
 }
 
+/**
+ * Resolve a transition's target path into a single state. Call this function on the state tree's root.
+ *
+ * - An absolute path (e.g. `#id.root.a.b`) must match a state's full path.
+ * - A relative path (e.g. `.child` or `..sibling`) begins at the handling state and
+ * moves up one level for each dot after the first.
+ * - Any other path is matched against the descendants of the handling state's parent
+ * (its siblings and their descendants) and then against the descendants of each
+ * further ancestor, stopping at the first scope with a match. Within that scope,
+ * the shallowest matching states are preferred.
+ *
+ * If more than one state remains, the target is ambiguous: the last of these is used
+ * and all of them are returned as `matches`.
+ *
+ * @param state The state tree's root.
+ * @param path The target path, without any `.previous` or `.restore` suffix.
+ * @param from The state handling the event that caused the transition, if any.
+ */
+export function resolveTransitionTarget<D = any>(
+  state: S.State<D, unknown>,
+  path: string,
+  from: S.State<D, unknown> = state
+): { target?: S.State<D, unknown>; matches: S.State<D, unknown>[] } {
+  // Absolute path
+  if (path.startsWith("#")) {
+    const found = findStateByPath(state, path)
+    return { target: found, matches: found ? [found] : [] }
+  }
+
+  // The handling state and its ancestors, from the handling state up to the root
+  const scopes = getAncestors(state, from).reverse()
+
+  // Relative path
+  if (path.startsWith(".")) {
+    const depth = path.length - path.replace(/^\.+/, "").length
+    const segments = path.slice(depth).split(".").filter(Boolean)
+
+    let found: S.State<D, unknown> | undefined = scopes[depth - 1]
+
+    for (let segment of segments) {
+      if (found === undefined) break
+      found = found.states[segment]
+    }
+
+    return { target: found, matches: found ? [found] : [] }
+  }
+
+  // Scoped path
+  for (let scope of scopes.slice(from === state ? 0 : 1)) {
+    const matches = findTransitionTargets(scope, path)
+
+    if (matches.length > 0) {
+      const getDepth = (s: S.State<D, unknown>) => s.path.split(".").length
+      const shallowest = Math.min(...matches.map(getDepth))
+      const closest = matches.filter((s) => getDepth(s) === shallowest)
+
+      return { target: last(closest), matches: closest }
+    }
+  }
+
+  return { target: undefined, matches: [] }
+}
+
+/**
+ * Get a state and each of its ancestors, from the root down to the state.
+ * Call this function on the state tree's root.
+ *
+ * @param state The state tree's root.
+ * @param descendant
+ */
+export function getAncestors<D = any>(
+  state: S.State<D, unknown>,
+  descendant: S.State<D, unknown>
+) {
+  const acc = [state]
+
+  for (let segment of descendant.path.split(".").slice(2)) {
+    acc.push(acc[acc.length - 1].states[segment])
+  }
+
+  return acc
+}
+
+/**
+ * Find a state by its full path (e.g. `#id.root.a.b`).
+ * Call this function on the state tree's root.
+ *
+ * @param state
+ * @param path
+ */
+export function findStateByPath<D = any>(
+  state: S.State<D, unknown>,
+  path: string
+): S.State<D, unknown> | undefined {
+  if (state.path === path) return state
+
+  for (let childState of Object.values(state.states)) {
+    const found = findStateByPath(childState, path)
+    if (found !== undefined) return found
+  }
+
+  return undefined
+}
+
 /**
  * Compute a state's initial state, given the state's initialFn and the provided payload and data.
  *
  * @param initial
  * @param payload
  * @param data
+ * @param context
  */
 export function getInitialState<D>(
   initial: S.InitialStateObject<D>,
   payload: any,
-  data: D
+  data: D,
+  context: S.EventContext
 ): string {
   if (initial.else !== undefined) {
     // Initial State with Logic
     let result: any = undefined
 
     for (let resu of initial.get) {
-      result = resu(data, payload, result)
+      result = resu(data, payload, result, context)
     }
 
-    if (testEventHandlerConditions(initial, data, payload, result)) {
+    if (testEventHandlerConditions(initial, data, payload, result, context)) {
       // TODO: The initial state object design should not allow both a `then` and `else` property.
       if (initial.then !== undefined) {
-        return getInitialState(initial.then, payload, data)
+        return getInitialState(initial.then, payload, data, context)
       } else {
-        return initial.to(data, payload, result)
+        return initial.to(data, payload, result, context)
       }
     } else {
-      return getInitialState(initial.else, payload, data)
+      return getInitialState(initial.else, payload, data, context)
     }
   } else {
-    return initial.to(data, payload, undefined)
+    return initial.to(data, payload, undefined, context)
   }
 }
 
@@ -153,25 +438,108 @@ export function getInitialState<D>(
  * @param state
  * @param payload
  * @param data
+ * @param getContext A function that returns the context to pass to a state's initial functions.
  */
 export function setIntitialStates<D>(
   state: S.State<D, unknown>,
   payload: any,
-  data: D
+  data: D,
+  getContext: (state: S.State<D, unknown>) => S.EventContext
 ) {
   if (state.initialFn !== undefined) {
-    state.initial = getInitialState(state.initialFn, payload, data)
+    state.initial = getInitialState(
+      state.initialFn,
+      payload,
+      data,
+      getContext(state)
+    )
   }
 
   if (state.states !== undefined) {
     // Parallel State
     for (let child of Object.values(state.states)) {
-      setIntitialStates(child, payload, data)
+      setIntitialStates(child, payload, data, getContext)
     }
   }
 }
 
-export function endStateIntervals<D, V>(state: S.State<D, V>) {
+/**
+ * Get a state's path without the tree's id, e.g. `root.a.b`.
+ *
+ * @param state
+ */
+export function getRelativePath<D = any>(state: S.State<D, unknown>) {
+  return state.path.split(".").slice(1).join(".")
+}
+
+/**
+ * Get the history of every state that has one, keyed by relative path.
+ * Works recursively, so you should only call this on the state tree's root.
+ *
+ * @param state
+ * @param acc
+ */
+export function getHistories<D = any>(
+  state: S.State<D, unknown>,
+  acc: Record<string, string[]> = {}
+) {
+  if (state.history.length > 0) {
+    acc[getRelativePath(state)] = [...state.history]
+  }
+
+  for (let childState of Object.values(state.states)) {
+    getHistories(childState, acc)
+  }
+
+  return acc
+}
+
+/**
+ * Set which states are active, and restore their histories, from a list of
+ * relative paths. Unlike activateState, this will not follow initial states,
+ * so the paths should describe a complete set of active states.
+ * Works recursively, so you should only call this on the state tree's root.
+ *
+ * @param state
+ * @param active An array of relative paths of active states.
+ * @param history An object with relative paths as keys and histories as values.
+ */
+export function hydrateState<D = any>(
+  state: S.State<D, unknown>,
+  active: string[],
+  history: Record<string, string[]>
+) {
+  const path = getRelativePath(state)
+  state.active = active.includes(path)
+  state.history = history[path] ? [...history[path]] : []
+
+  for (let childState of Object.values(state.states)) {
+    hydrateState(childState, active, history)
+  }
+}
+
+/**
+ * Find a state using its relative path.
+ * Works recursively, so you should only call this on the state tree's root.
+ *
+ * @param state
+ * @param path
+ */
+export function findStateByRelativePath<D = any>(
+  state: S.State<D, unknown>,
+  path: string
+): S.State<D, unknown> | undefined {
+  if (getRelativePath(state) === path) return state
+
+  for (let childState of Object.values(state.states)) {
+    const found = findStateByRelativePath(childState, path)
+    if (found !== undefined) return found
+  }
+
+  return undefined
+}
+
+export function endStateIntervals<D, V>(state: S.State<D, V>, clock: S.Clock) {
   const { cancelAsync, timeouts, interval, animationFrame } = state.times
 
   // If state is waiting on an asynchronous event, cancel it
@@ -180,30 +548,52 @@ export function endStateIntervals<D, V>(state: S.State<D, V>) {
     state.times.cancelAsync = undefined
   }
 
+  // If state has debounced events waiting, drop them
+  if (state.times.cancelDebounces !== undefined) {
+    state.times.cancelDebounces()
+    state.times.cancelDebounces = undefined
+  }
+
+  // If state has services, stop them
+  if (state.times.stopServices !== undefined) {
+    state.times.stopServices()
+    state.times.stopServices = undefined
+  }
+
+  // If state has a child machine, stop it
+  if (state.times.stopChild !== undefined) {
+    state.times.stopChild()
+    state.times.stopChild = undefined
+  }
+
   // If state is waiting on timeouts, clear them
   for (let timeout of timeouts) {
-    clearTimeout(timeout)
+    clock.clearTimeout(timeout)
   }
 
   state.times.timeouts = []
+  state.times.waits = []
 
   // If state is repeating an event on an interval, stop it
   if (!isUndefined(interval)) {
-    clearInterval(interval)
+    clock.clearInterval(interval)
     state.times.interval = undefined
   }
 
   // If the state is repeating an event on an animation frame, stop it
   if (!isUndefined(animationFrame)) {
-    cancelAnimationFrame(animationFrame)
+    clock.cancelAnimationFrame(animationFrame)
     state.times.animationFrame = undefined
   }
 }
 
-export function recursivelyEndStateIntervals<D, V>(state: S.State<D, V>) {
-  endStateIntervals(state)
+export function recursivelyEndStateIntervals<D, V>(
+  state: S.State<D, V>,
+  clock: S.Clock
+) {
+  endStateIntervals(state, clock)
   for (let child of Object.values(state.states)) {
-    recursivelyEndStateIntervals(child)
+    recursivelyEndStateIntervals(child, clock)
   }
 }
 
@@ -221,7 +611,11 @@ export function recursivelyEndStateIntervals<D, V>(state: S.State<D, V>) {
 
   If it's a branch state, then we'll either need to activate its
   initial child state, "restore" it by activating its prevly 
-  active state, or activate the next state in the path.
+  active state, or activate the next state in the path. A transition
+  may have several targets, but only one of them may continue
+  through a branch state: targets in different children of the 
+  same branch state conflict, and should be rejected before
+  activating the tree.
 
   There are two types of transitions that might cause us to restore
   a state: 'prev' and 'restore'. A prev transition only 
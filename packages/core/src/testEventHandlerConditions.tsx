@@ -6,16 +6,26 @@ import * as S from "./types"
  * @param d Data
  * @param p Payload
  * @param r Result
+ * @param x Context
+ * @param onTest (optional) A callback to call with each condition tested and its result.
  */
 export function testEventHandlerConditions<D, P, R>(
   h: S.EventHandlerObject<D> | S.InitialStateObject<D>,
   d: D,
   p: P,
-  r: R
+  r: R,
+  x: S.EventContext,
+  onTest?: (condition: S.Condition<D>, passed: boolean) => void
 ) {
-  if (h.if[0] && !h.if.every((c) => c(d, p, r))) return false
-  if (h.ifAny[0] && !h.ifAny.some((c) => c(d, p, r))) return false
-  if (h.unless[0] && !h.unless.every((c) => !c(d, p, r))) return false
-  if (h.unlessAny[0] && !h.unlessAny.some((c) => !c(d, p, r))) return false
+  const t = (c: S.Condition<D>) => {
+    const passed = c(d, p, r, x)
+    onTest?.(c, passed)
+    return passed
+  }
+
+  if (h.if[0] && !h.if.every((c) => t(c))) return false
+  if (h.ifAny[0] && !h.ifAny.some((c) => t(c))) return false
+  if (h.unless[0] && !h.unless.every((c) => !t(c))) return false
+  if (h.unlessAny[0] && !h.unlessAny.some((c) => !t(c))) return false
   return true
 }
@@ -1,3 +1,5 @@
+import { Patch } from "immer"
+
 export type MaybeArray<T> = T | T[]
 
 export type Reducer<T> = (
@@ -7,9 +9,65 @@ export type Reducer<T> = (
   array: [string, any][]
 ) => T
 
+// Events
+
+/**
+ * A map of event names to the types of their payloads. Use `undefined` for events sent without a payload.
+ */
+export type EventMap = Record<string, any>
+
+export type EventName<E extends EventMap> = Extract<keyof E, string>
+
+/**
+ * The names of events that may be sent without a payload.
+ */
+export type EventNameWithoutPayload<E extends EventMap> = {
+  [K in EventName<E>]: undefined extends E[K] ? K : never
+}[EventName<E>]
+
+/**
+ * The arguments that follow an event's name when sending it: an optional payload if the payload may be `undefined`, otherwise a required payload.
+ */
+export type PayloadArgs<P> = undefined extends P ? [P?] : [P]
+
 // Event Functions
 
-export type EventFn<D, T> = (data: D, payload?: any, result?: any) => T
+/**
+ * Passed to event functions as their fourth argument.
+ */
+export type EventContext = {
+  /**
+   * The name of the event being handled. Functions that run later, such as those in a state's `onEnter`, `after`, `repeat` or `async` events, receive the name of the event that caused the transition. This is `undefined` for functions that run when the state starts or is hydrated.
+   */
+  event: string | undefined
+  /**
+   * The path of the state that is handling the event, such as `#id.root.a`.
+   */
+  path: string
+  /**
+   * Works like the state's `isIn`, but includes any transitions made while handling the current event.
+   */
+  isIn: (...paths: string[]) => boolean
+  /**
+   * The state's values, as of its most recent update.
+   */
+  readonly values: Record<string, any>
+  /**
+   * Send an event to the state. The event will be handled after the events already in the queue.
+   */
+  send: (eventName: string, payload?: any) => void
+  /**
+   * The current time, according to the state's clock.
+   */
+  readonly now: number
+}
+
+export type EventFn<D, T, P = any, Q = any> = (
+  data: D,
+  payload: P,
+  result: Q,
+  context: EventContext
+) => T
 
 export type EventFnDesign<T, K> = Extract<keyof T, string> | K
 
@@ -17,35 +75,116 @@ export type EventFnDesign<T, K> = Extract<keyof T, string> | K
 
 export type Action<D> = EventFn<D, any>
 
-export type ActionDesign<D, T> = EventFnDesign<T, EventFn<D, any>>
+export type ActionDesign<D, T, P = any, Q = any> = EventFnDesign<
+  T,
+  EventFn<D, any, P, Q>
+>
 
 // Condition
 
 export type Condition<D> = EventFn<D, boolean>
 
-export type ConditionDesign<D, T> = EventFnDesign<T, Condition<D>>
+export type ConditionDesign<D, T, P = any, Q = any> = EventFnDesign<
+  T,
+  EventFn<D, boolean, P, Q>
+>
 
 // Result
 
 export type Result<D> = EventFn<D, any>
 
-export type ResultDesign<D, T> = EventFnDesign<T, Result<D>>
+export type ResultDesign<D, T, P = any> = EventFnDesign<T, EventFn<D, any, P>>
+
+/**
+ * The type of the result produced by a `get` chain: the return type of its last result, whether named in `results` or given as a function. Without a `get`, this is `Q`, the result from earlier in the event handler.
+ */
+export type GetResult<R, G, Q = any> = G extends readonly []
+  ? Q
+  : G extends readonly [infer L]
+  ? GetResult<R, L, Q>
+  : G extends readonly [any, ...infer L]
+  ? GetResult<R, L, Q>
+  : G extends readonly (infer U)[]
+  ? GetResult<R, U, Q>
+  : G extends keyof R
+  ? R[G] extends (...args: any[]) => infer U
+    ? U
+    : any
+  : G extends (...args: any[]) => infer U
+  ? U
+  : Q
 
 // Async
 
-export type Async<D> = EventFn<D, Promise<any>>
+/**
+ * Passed to an async as its fourth argument. The signal is aborted when the async's state is exited or when the async times out. Calling `progress` with an intermediate result will run the async event's `onProgress` handler.
+ */
+export type AsyncContext = EventContext & {
+  signal: AbortSignal
+  progress: (value: any) => void
+}
+
+export type Async<D> = (
+  data: D,
+  payload: any,
+  result: any,
+  context: AsyncContext
+) => Promise<any>
+
+/**
+ * The error passed as the result to an async event's `onReject` handler when its async takes longer than its `timeout`.
+ */
+export interface AsyncTimeoutError extends Error {
+  name: "AsyncTimeoutError"
+  /**
+   * The timeout (in seconds) that the async exceeded.
+   */
+  timeout: number
+}
 
 export type AsyncDesign<D, T> = EventFnDesign<T, Async<D>>
 
+// Service
+
+/**
+ * Sends an event from a service to its state.
+ */
+export type SendBack = (eventName: string, payload?: any) => void
+
+/**
+ * A long-running process, such as a subscription, that is started when a state is entered. While the state is active, the service may send events to it through `sendBack`. If the service returns a function, that function will be called when the state is exited.
+ */
+export type Service<D> = (
+  data: D,
+  payload: any,
+  sendBack: SendBack
+) => void | (() => void)
+
+export type ServiceDesign<D, Z> = EventFnDesign<Z, Service<D>>
+
 // Time
 
 export type Time<D> = EventFn<D, number>
 
-export type TimeDesign<D, T> = number | EventFnDesign<T, Time<D>>
+export type TimeDesign<D, T, P = any> =
+  | number
+  | EventFnDesign<T, EventFn<D, number, P>>
 
 // Value
 
-export type Value<D> = (data: D) => any
+/**
+ * Passed to a value as its second argument. Reading another value will compute that value, if needed.
+ */
+export type ValueContext = {
+  values: Record<string, any>
+  active: string[]
+  isIn: (...paths: string[]) => boolean
+}
+
+/**
+ * A value computed from a state's data and (through its context) the state's other values and active states. Values are memoized, so a value is only recomputed when something that it read has changed.
+ */
+export type Value<D> = (data: D, context: ValueContext) => any
 
 export type Values<D, V extends Record<string, Value<D>>> = {
   [key in keyof V]: ReturnType<V[key]>
@@ -59,7 +198,15 @@ export type ReturnedValues<D, V extends Record<string, Value<D>>> = {
 
 export type Target<D> = EventFn<D, string>
 
-export type TargetDesign<D> = MaybeArray<string | EventFn<D, string>>
+export type TargetDesign<D, P = any, Q = any> = MaybeArray<
+  `${string}` | EventFn<D, string, P, Q>
+>
+
+export type TransitionTarget = {
+  path: string[]
+  prev: boolean
+  deep: boolean
+}
 
 // Send
 
@@ -67,13 +214,18 @@ export type Event = { event: string; payload: any }
 
 export type Send<D> = EventFn<D, Event>
 
-export type SendDesign<D> = string | Event | EventFn<D, Event>
+export type SendDesign<D, P = any, Q = any> =
+  | string
+  | Event
+  | EventFn<D, Event, P, Q>
 
 // Break
 
 export type Break<D> = EventFn<D, boolean>
 
-export type BreakDesign<D> = boolean | EventFn<D, boolean>
+export type BreakDesign<D, P = any, Q = any> =
+  | boolean
+  | EventFn<D, boolean, P, Q>
 
 // Intitial
 
@@ -132,78 +284,109 @@ export type EventHandlerObject<D> = {
   break?: Break<D>
   then?: EventHandler<D>
   else?: EventHandler<D>
+  throttle?: number
+  debounce?: number
 }
 
 /**
  * What to do when an event is triggered. You can define an event as an array of these objects.
+ * Functions in the object will receive the event's payload (of type `P`) as their second argument and, apart from `get` and `wait`, the result of the `get` chain (of type `Q`) as their third.
+ * Note that TypeScript (as of 4.1) can't infer `Q` from the `get` of an object written inline in a design, so those functions receive the result as `any`. To type the result of a named `get`, create the object with the design's `createEventHandlerObjectDesign`, which may also be called inline.
  */
-export type EventHandlerObjectDesign<D, R, C, A, T> = {
+export type EventHandlerObjectDesign<D, R, C, A, T, P = any, Q = any> = {
   /**
    * The result(s) to compute before running conditions or actions. The returned value will be available as the third argument to event handler functions, such as conditions, actions, and further restults.
    */
-  get?: MaybeArray<ResultDesign<D, R>>
+  get?: MaybeArray<ResultDesign<D, R, P>>
   /**
    * One or more condition(s) to test. If any condition returns false, the handler will not run.
    */
-  if?: MaybeArray<ConditionDesign<D, C>>
+  if?: MaybeArray<ConditionDesign<D, C, P, Q>>
   /**
    * One or more condition(s) to test. If any condition returns true, the handler will run.
    */
-  ifAny?: MaybeArray<ConditionDesign<D, C>>
+  ifAny?: MaybeArray<ConditionDesign<D, C, P, Q>>
   /**
    * One or more condition(s) to test. If any condition returns true, the handler will not run.
    */
-  unless?: MaybeArray<ConditionDesign<D, C>>
+  unless?: MaybeArray<ConditionDesign<D, C, P, Q>>
   /**
    * One or more condition(s) to test. If any condition returns false, the handler will run.
    */
-  unlessAny?: MaybeArray<ConditionDesign<D, C>>
+  unlessAny?: MaybeArray<ConditionDesign<D, C, P, Q>>
   /**
    * The action(s) to perform. These actions can mutate the data property. Note: Defining actions will cause this event to trigger an update.
    */
-  do?: MaybeArray<ActionDesign<D, A>>
+  do?: MaybeArray<ActionDesign<D, A, P, Q>>
   /**
    * The "secret" action(s) to perform. These actions cannot mutate the data property. Note: Defining "secret" actions will NOT cause this event to trigger an update.
    */
-  secretlyDo?: MaybeArray<ActionDesign<D, A>>
+  secretlyDo?: MaybeArray<ActionDesign<D, A, P, Q>>
   /**
    * A transition target: either a state's name or path. Defining a target will cause this handler to trigger an update.
    */
-  to?: TargetDesign<D>
+  to?: TargetDesign<D, P, Q>
   /**
    * A transition target: either a state's name or path. Defining a target will not cause this handler to trigger an update.
    */
-  secretlyTo?: TargetDesign<D>
+  secretlyTo?: TargetDesign<D, P, Q>
   /**
    * An event name and (optionally) payload to send to the state.
    */
-  send?: SendDesign<D>
+  send?: SendDesign<D, P, Q>
   /**
    * A delay (in seconds) to wait before running this handler object.
    */
-  wait?: TimeDesign<D, T>
+  wait?: TimeDesign<D, T, P>
   /**
    * Whether this item should stop the event's other handlers objects from running.
    */
-  break?: BreakDesign<D>
+  break?: BreakDesign<D, P, Q>
+  /**
+   * A number of milliseconds during which further events of this kind will be ignored after one is handled.
+   */
+  throttle?: number
+  /**
+   * A number of milliseconds to wait for further events of this kind before handling the last one. Pending events are dropped if the state is exited.
+   */
+  debounce?: number
   /**
    * An additional event handler to run if this event handler object passed its conditions.
    */
-  then?: EventHandlerDesign<D, R, C, A, T>
+  then?: EventHandlerDesign<D, R, C, A, T, P, Q>
   /**
    * An event handler to run instead if this event handler object did not pass its conditions.
    */
-  else?: EventHandlerDesign<D, R, C, A, T>
+  else?: EventHandlerDesign<D, R, C, A, T, P, Q>
 }
 
 // Event Handler
 
 export type EventHandler<D> = Array<EventHandlerObject<D>>
 
-export type EventHandlerDesign<D, R, C, A, T> = MaybeArray<
-  ActionDesign<D, A> | EventHandlerObjectDesign<D, R, C, A, T>
+export type EventHandlerDesign<D, R, C, A, T, P = any, Q = any> = MaybeArray<
+  ActionDesign<D, A, P, Q> | EventHandlerObjectDesign<D, R, C, A, T, P, Q>
 >
 
+/**
+ * A pattern that matches more than one event: `*` matches every event, while a pattern such as `MOVED_*` matches each event that begins with `MOVED_`.
+ */
+export type EventPattern<E extends EventMap> =
+  | "*"
+  | {
+      [K in EventName<E>]: K extends `${infer P}_${string}` ? `${P}_*` : never
+    }[EventName<E>]
+
+/**
+ * A state's event handlers. Each handler's functions will receive its event's payload type. Handlers may also be keyed by an event pattern, in which case they will run for every matching event after the handler (if any) for the event's own name.
+ */
+export type EventHandlersDesign<D, R, C, A, T, E extends EventMap> = {
+  [K in EventName<E>]?: EventHandlerDesign<D, R, C, A, T, E[K]>
+} &
+  {
+    [K in EventPattern<E>]?: EventHandlerDesign<D, R, C, A, T, any>
+  }
+
 export type RepeatEvent<D> = {
   onRepeat: EventHandler<D>
   delay?: Time<D>
@@ -213,18 +396,75 @@ export type RepeatEventDesign<D, R, C, A, T> = {
   onRepeat: EventHandlerDesign<D, R, C, A, T>
   delay?: TimeDesign<D, T>
 }
+// After Events
+
+export type AfterEvent<D> = {
+  delay: Time<D>
+  eventHandler: EventHandler<D>
+}
+
+/**
+ * Event handlers to run once a state has been active for some time, keyed either by a number of seconds or by the name of an item in `times`.
+ */
+export type AfterEventsDesign<D, R, C, A, T> = {
+  [seconds: number]: EventHandlerDesign<D, R, C, A, T>
+} & {
+  [K in Extract<keyof T, string>]?: EventHandlerDesign<D, R, C, A, T>
+}
+
 // Async Event Handler
 
 export type AsyncEvent<D> = {
   await: Async<D>
   onResolve: EventHandler<D>
   onReject?: EventHandler<D>
+  onProgress?: EventHandler<D>
+  timeout?: Time<D>
 }
 
 export type AsyncEventDesign<D, R, C, A, Y, T> = {
   await: Extract<keyof Y, string> | Async<D>
   onResolve: EventHandlerDesign<D, R, C, A, T>
+  /**
+   * What to do if the async rejects or times out. After a timeout, the result will be an `AsyncTimeoutError`.
+   */
   onReject?: EventHandlerDesign<D, R, C, A, T>
+  /**
+   * What to do with each intermediate result that the async passes to its context's `progress` function.
+   */
+  onProgress?: EventHandlerDesign<D, R, C, A, T>
+  /**
+   * A delay (in seconds) after which the async will be aborted and its `onReject` handler will run.
+   */
+  timeout?: TimeDesign<D, T>
+}
+
+// Child Machine
+
+export type Machine<D> = {
+  design: Design<any>
+  final: string[]
+  onDone?: EventHandler<D>
+}
+
+export type MachineDesign<D, R, C, A, T> = {
+  /**
+   * The design for the child state to create when this state is entered.
+   */
+  design: Design<any>
+  /**
+   * One or more paths in the child state. When the child state enters one of these states, the parent will run its onDone event. If not provided, the parent will run its onDone event when the child's root state is done.
+   */
+  final?: MaybeArray<string>
+  /**
+   * What to do when the child state reaches a final state. The child state's data will be available as the result.
+   */
+  onDone?: EventHandlerDesign<D, R, C, A, T>
+}
+
+export type ChildMachine = {
+  state: DesignedState<any, any>
+  isDone: boolean
 }
 
 // Verbose Logging Types
@@ -242,8 +482,63 @@ export enum VerboseType {
   Notification = "notification",
   EventHandler = "eventHandler",
   Queue = "queue",
+  Result = "result",
+  Wait = "wait",
 }
 
+// Inspection
+
+/**
+ * A structured record of something that happened inside of a state, passed to listeners added with `inspect`. State paths are full paths, such as `#id.root.a`, and `time` is taken from the state's clock. A `queue` record follows each processed event, with a serialized snapshot of the state at that point.
+ */
+export type InspectRecord =
+  | { type: VerboseType.Event; time: number; event: string; payload: any }
+  | {
+      type: VerboseType.EventHandler
+      time: number
+      state: string
+      passed: boolean
+    }
+  | {
+      type: VerboseType.Condition
+      time: number
+      state: string
+      name: string
+      passed: boolean
+    }
+  | {
+      type: VerboseType.Result
+      time: number
+      state: string
+      name: string
+      result: any
+    }
+  | {
+      type: VerboseType.Action | VerboseType.SecretAction
+      time: number
+      state: string
+      name: string
+    }
+  | { type: VerboseType.Wait; time: number; state: string; delay: number }
+  | {
+      type: VerboseType.Transition
+      time: number
+      state?: string
+      targets: string[]
+      before: string[]
+      after: string[]
+    }
+  | { type: VerboseType.Notification; time: number }
+  | {
+      type: VerboseType.Queue
+      time: number
+      event: string
+      payload: any
+      snapshot: SerializedState<any>
+    }
+
+export type Inspector = (record: InspectRecord) => void
+
 // State
 
 export interface State<D, V> {
@@ -254,36 +549,212 @@ export interface State<D, V> {
   type: "branch" | "leaf" | "parallel"
   active: boolean
   path: string
+  final: boolean
   history: string[]
   activeId: number
   times: {
     timeouts: any[]
+    waits: Wait[]
     interval?: any
     animationFrame?: number
     cancelAsync?: () => void
+    cancelDebounces?: () => void
+    stopServices?: () => void
+    stopChild?: () => void
   }
   on: Record<string, EventHandler<D> & ThisType<DesignedState<D, V>>>
   onEnter?: EventHandler<D>
   onExit?: EventHandler<D>
   onEvent?: EventHandler<D>
+  onDone?: EventHandler<D>
   repeat?: RepeatEvent<D>
-  async?: AsyncEvent<D>
+  after?: AfterEvent<D>[]
+  async?: AsyncEvent<D>[]
+  service?: Service<D>[]
+  defer: string[]
+  machine?: Machine<D>
+  child?: ChildMachine
   states: Record<string, State<D, V>>
   initialFn?: InitialStateObject<D>
   initial?: string
 }
 
-export interface StateDesign<D, R, C, A, Y, T, V> {
-  on?: Record<string, EventHandlerDesign<D, R, C, A, T>>
+export interface StateDesign<
+  D,
+  R,
+  C,
+  A,
+  Y,
+  T,
+  V,
+  E extends EventMap = EventMap,
+  Z = any
+> {
+  on?: EventHandlersDesign<D, R, C, A, T, E>
   onEnter?: EventHandlerDesign<D, R, C, A, T>
   onExit?: EventHandlerDesign<D, R, C, A, T>
   onEvent?: EventHandlerDesign<D, R, C, A, T>
+  /**
+   * What to do when this state is done: for a branch state, when its active child state is done; for a parallel state, when all of its child states are done.
+   */
+  onDone?: EventHandlerDesign<D, R, C, A, T>
+  /**
+   * Whether this (leaf) state is a final state. When a final state becomes active, its parent state is done.
+   */
+  final?: boolean
   repeat?: RepeatEventDesign<D, R, C, A, T>
-  async?: AsyncEventDesign<D, R, C, A, Y, T>
-  states?: Record<string, StateDesign<D, R, C, A, Y, T, V>>
+  /**
+   * What to do after this state has been active for some time. Each key is either a number of seconds or the name of an item in `times`. The timers start when the state is entered and are cancelled when it is exited.
+   * @example
+   * after: { 2: { to: "idle" }, longDelay: { do: "sleep" } }
+   */
+  after?: AfterEventsDesign<D, R, C, A, T>
+  /**
+   * One or more asyncs to start when this state is entered. Asyncs still pending when the state is exited will be aborted.
+   */
+  async?: MaybeArray<AsyncEventDesign<D, R, C, A, Y, T>>
+  /**
+   * One or more services to start when this state is entered. Each service will be stopped (and its cleanup function called) when the state is exited.
+   */
+  service?: MaybeArray<ServiceDesign<D, Z>>
+  /**
+   * Events to hold while this state is active and no active state can handle them. A held event is handled once the state enters a state that can handle it, and dropped if no active state holds it.
+   */
+  defer?: string[]
+  machine?: MachineDesign<D, R, C, A, T>
+  states?: Record<string, StateDesign<D, R, C, A, Y, T, V, E, Z>>
   initial?: InitialStateDesign<D, C, R>
 }
 
+// State Paths
+
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8]
+
+type PropOf<T, K extends string> = T extends { [P in K]?: infer U }
+  ? NonNullable<U>
+  : never
+
+/**
+ * The paths to the states in a design's `states`, such as `"playing" | "playing.paused"`. If the states are not known, this will be `string`.
+ */
+export type ChildTreeStatePaths<X> = X extends Record<string, any>
+  ? string extends keyof X
+    ? string
+    : {
+        [K in keyof X & string]:
+          | K
+          | `${K}.${ChildTreeStatePaths<PropOf<X[K], "states">>}`
+      }[keyof X & string]
+  : never
+
+/**
+ * The paths to the states in a design's `states` and in the designs of their child machines, such as `"playing" | "playing.paused"`. If the states are not known, this will be `string`.
+ */
+export type ChildStatePaths<X> = X extends Record<string, any>
+  ? string extends keyof X
+    ? string
+    : {
+        [K in keyof X & string]:
+          | K
+          | `${K}.${ChildStatePaths<PropOf<X[K], "states">>}`
+          | `${K}.${ChildStatePaths<
+              PropOf<PropOf<PropOf<X[K], "machine">, "design">, "states">
+            >}`
+      }[keyof X & string]
+  : never
+
+type PathSuffixes<P extends string> =
+  | P
+  | (P extends `${string}.${infer R}` ? PathSuffixes<R> : never)
+
+type PathsFromRoot<P extends string> = PathSuffixes<P> | "root" | `root.${P}`
+
+/**
+ * The paths that may be used to find a state, such as in `isIn`. Like the paths themselves, these match the end of a state's full path, so `"paused"`, `"playing.paused"` and `"root.playing.paused"` are all valid.
+ */
+export type StatePath<X> = PathsFromRoot<ChildStatePaths<X>>
+
+/**
+ * The paths that may be used to find a state to transition to. Unlike `StatePath`, these do not include the states of child machines, which transitions can't reach.
+ */
+export type TransitionStatePath<X> = PathsFromRoot<ChildTreeStatePaths<X>>
+
+/**
+ * The paths that may be used as a transition's target: a state path, optionally ending in `.previous` or `.restore`, or an unchecked relative (`..sibling`) or absolute (`#id.root.a`) path.
+ */
+export type TargetPath<P extends string> =
+  | P
+  | `${P}.previous`
+  | `${P}.restore`
+  | `.${string}`
+  | `#${string}`
+
+type FlattenTarget<T> = T extends readonly (infer U)[] ? U : T
+
+type HandlerTargets<H, N extends number = 4> = [N] extends [never]
+  ? never
+  : H extends readonly (infer I)[]
+  ? HandlerTargets<I, N>
+  : H extends Record<string, any>
+  ?
+      | Extract<
+          FlattenTarget<PropOf<H, "to"> | PropOf<H, "secretlyTo">>,
+          string
+        >
+      | HandlerTargets<PropOf<H, "then">, PrevDepth[N]>
+      | HandlerTargets<PropOf<H, "else">, PrevDepth[N]>
+  : never
+
+type HandlersTargets<O> = O extends Record<string, any>
+  ? string extends keyof O
+    ? never
+    : { [K in keyof O]: HandlerTargets<O[K]> }[keyof O]
+  : never
+
+type StateTargets<X, N extends number = 8> = [N] extends [never]
+  ? never
+  : X extends Record<string, any>
+  ? string extends keyof X
+    ? never
+    : {
+        [K in keyof X]:
+          | HandlersTargets<PropOf<X[K], "on">>
+          | HandlerTargets<PropOf<X[K], "onEnter">>
+          | HandlerTargets<PropOf<X[K], "onExit">>
+          | HandlerTargets<PropOf<X[K], "onEvent">>
+          | HandlerTargets<PropOf<X[K], "onDone">>
+          | HandlerTargets<PropOf<PropOf<X[K], "repeat">, "onRepeat">>
+          | HandlersTargets<PropOf<X[K], "after">>
+          | HandlerTargets<
+              PropOf<FlattenTarget<PropOf<X[K], "async">>, "onResolve">
+            >
+          | HandlerTargets<
+              PropOf<FlattenTarget<PropOf<X[K], "async">>, "onReject">
+            >
+          | HandlerTargets<
+              PropOf<FlattenTarget<PropOf<X[K], "async">>, "onProgress">
+            >
+          | StateTargets<PropOf<X[K], "states">, PrevDepth[N]>
+      }[keyof X]
+  : never
+
+/**
+ * The transition targets in a design's `states` and root `on` that do not match any of its states.
+ */
+export type InvalidTargets<X, O> = Exclude<
+  StateTargets<X> | HandlersTargets<O>,
+  TargetPath<TransitionStatePath<X>> | undefined
+>
+
+/**
+ * Used to reject a design with invalid transition targets. If any are found, the design will be missing an `invalidTargets` property that lists them.
+ */
+export type ValidTargets<X, O> = InvalidTargets<X, O> extends infer I
+  ? [I] extends [never]
+    ? unknown
+    : { invalidTargets: I }
+  : never
+
 // Design
 
 export interface Design<
@@ -293,16 +764,43 @@ export interface Design<
   A extends Record<string, Action<D>> = any,
   Y extends Record<string, Async<D>> = any,
   T extends Record<string, number | Time<D>> = any,
-  V extends Record<string, Value<D>> = any
-> extends StateDesign<D, R, C, A, Y, T, V> {
+  V extends Record<string, Value<D>> = any,
+  E extends EventMap = EventMap,
+  Z extends Record<string, Service<D>> = any,
+  X extends Record<string, StateDesign<D, R, C, A, Y, T, V, E, Z>> = Record<
+    string,
+    StateDesign<D, R, C, A, Y, T, V, E, Z>
+  >,
+  O extends EventHandlersDesign<D, R, C, A, T, E> = EventHandlersDesign<
+    D,
+    R,
+    C,
+    A,
+    T,
+    E
+  >
+> extends StateDesign<D, R, C, A, Y, T, V, E, Z> {
   id?: string
   data?: D
+  on?: O
+  states?: X
+  /**
+   * The events that this design's states can handle, mapped to the types of their payloads. This property is only used for type checking.
+   * @example
+   * events: {} as { ADDED: { id: string }; CLEARED: undefined }
+   */
+  events?: E
   results?: R
   conditions?: C
   actions?: A
   asyncs?: Y
+  services?: Z
   times?: T
   values?: V
+  /**
+   * Events whose changes should not be recorded in the state's undo history, such as events that only track the pointer. Their changes still clear the redo history.
+   */
+  nonUndoable?: string[]
 }
 
 export interface DesignWithHelpers<
@@ -312,14 +810,33 @@ export interface DesignWithHelpers<
   A extends Record<string, Action<D>>,
   Y extends Record<string, Async<D>>,
   T extends Record<string, number | Time<D>>,
-  V extends Record<string, Value<D>>
-> extends Design<D, R, C, A, Y, T, V> {
-  createEventHandlerDesign: (
-    design: EventHandlerDesign<D, R, C, A, T>
-  ) => EventHandlerDesign<D, R, C, A, T>
-  createEventHandlerObjectDesign: (
-    design: EventHandlerObjectDesign<D, R, C, A, T>
-  ) => EventHandlerObjectDesign<D, R, C, A, T>
+  V extends Record<string, Value<D>>,
+  E extends EventMap = EventMap,
+  Z extends Record<string, Service<D>> = any,
+  X extends Record<string, StateDesign<D, R, C, A, Y, T, V, E, Z>> = Record<
+    string,
+    StateDesign<D, R, C, A, Y, T, V, E, Z>
+  >,
+  O extends EventHandlersDesign<D, R, C, A, T, E> = EventHandlersDesign<
+    D,
+    R,
+    C,
+    A,
+    T,
+    E
+  >
+> extends Design<D, R, C, A, Y, T, V, E, Z, X, O> {
+  createEventHandlerDesign: <Q = any>(
+    design: EventHandlerDesign<D, R, C, A, T, any, Q>
+  ) => EventHandlerDesign<D, R, C, A, T, any, Q>
+  createEventHandlerObjectDesign: <
+    G extends MaybeArray<ResultDesign<D, R>> | [] = EventFn<D, any>
+  >(
+    design: Omit<
+      EventHandlerObjectDesign<D, R, C, A, T, any, GetResult<R, G>>,
+      "get"
+    > & { get?: G }
+  ) => EventHandlerObjectDesign<D, R, C, A, T, any, GetResult<R, G>>
   createAsyncEventDesign: (
     design: AsyncEventDesign<D, R, C, A, Y, T>
   ) => AsyncEventDesign<D, R, C, A, Y, T>
@@ -327,8 +844,8 @@ export interface DesignWithHelpers<
     design: RepeatEventDesign<D, R, C, A, T>
   ) => RepeatEventDesign<D, R, C, A, T>
   createState: (
-    design: StateDesign<D, R, C, A, Y, T, V>
-  ) => StateDesign<D, R, C, A, Y, T, V>
+    design: StateDesign<D, R, C, A, Y, T, V, E, Z>
+  ) => StateDesign<D, R, C, A, Y, T, V, E, Z>
   createResultDesign: (design: ResultDesign<D, R>) => ResultDesign<D, R>
   createConditionDesign: (
     design: ConditionDesign<D, C>
@@ -344,31 +861,413 @@ export type SubscriberFn<T> = (update: T) => void
 
 // State Design
 
-export interface DesignedState<D, V> {
+export interface DesignedState<
+  D,
+  V,
+  E extends EventMap = EventMap,
+  P extends string = string,
+  G extends string = P
+> {
   id: string
   data: D
   values: V
+  /**
+   * The errors (if any) thrown while computing the state's values. A value that throws an error will be `undefined`.
+   */
+  valueErrors: { [K in keyof V]?: Error }
   active: string[]
   stateTree: State<D, V>
   log: string[]
-  can: (eventName: string, payload?: any) => boolean
-  isIn: (...paths: string[]) => boolean
-  isInAny: (...paths: string[]) => boolean
+  can: <K extends EventName<E>>(
+    eventName: K,
+    ...payload: PayloadArgs<E[K]>
+  ) => boolean
+  isIn: (...paths: P[]) => boolean
+  isInAny: (...paths: P[]) => boolean
   whenIn: <T = unknown>(
-    states: { [key: string]: any },
+    states: { [key in P | "default"]?: any },
     reducer?: "value" | "array" | Reducer<T>,
     initial?: any
   ) => T
   thenSend: (
-    eventName: string
-  ) => (eventName: string, payload?: any) => Promise<DesignedState<D, V>>
-  send: (eventName: string, payload?: any) => Promise<DesignedState<D, V>>
-  onUpdate: (callbackFn: SubscriberFn<DesignedState<D, V>>) => () => void
-  getUpdate: (callbackFn: SubscriberFn<DesignedState<D, V>>) => void
+    eventName: EventNameWithoutPayload<E>
+  ) => (eventName?: any, payload?: any) => Promise<DesignedState<D, V, E, P, G>>
+  send: <K extends EventName<E>>(
+    eventName: K,
+    ...payload: PayloadArgs<E[K]>
+  ) => Promise<DesignedState<D, V, E, P, G>>
+  /**
+   * Send an event that will be handled before any queued events, without being throttled or debounced.
+   */
+  sendNow: <K extends EventName<E>>(
+    eventName: K,
+    ...payload: PayloadArgs<E[K]>
+  ) => Promise<DesignedState<D, V, E, P, G>>
+  onUpdate: (
+    callbackFn: SubscriberFn<DesignedState<D, V, E, P, G>>
+  ) => () => void
+  getUpdate: (callbackFn: SubscriberFn<DesignedState<D, V, E, P, G>>) => void
+  select: <T>(
+    selector: (state: DesignedState<D, V, E, P, G>) => T,
+    listener: (selected: T, previous: T) => void,
+    isEqual?: (a: T, b: T) => boolean
+  ) => () => void
   getDesign: () => any
-  forceTransition: (target: string, payload?: any) => DesignedState<D, V>
-  clone: () => DesignedState<D, V>
-  reset: () => DesignedState<D, V>
+  forceTransition: (
+    target: TargetPath<G> | TargetPath<G>[],
+    payload?: any
+  ) => DesignedState<D, V, E, P, G>
+  clone: () => DesignedState<D, V, E, P, G>
+  reset: () => DesignedState<D, V, E, P, G>
+  serialize: () => SerializedState<D>
+  hydrate: (serialized: SerializedState<D>) => DesignedState<D, V, E, P, G>
+  inspect: (listener: Inspector) => () => void
+  /**
+   * The events and waits that the state has not yet finished handling.
+   */
+  readonly queue: QueueView
+  /**
+   * The state's undo history, with the most recent entry last. Empty unless the state was created with the `history` option.
+   */
+  history: HistoryEntry[]
+  canUndo: boolean
+  canRedo: boolean
+  undo: () => DesignedState<D, V, E, P, G>
+  redo: () => DesignedState<D, V, E, P, G>
+  /**
+   * The immer patches made to the state's data since the previous update. A patch with an empty path replaced the data as a whole, as when the state was hydrated or reset.
+   */
+  patches: Patch[]
+  /**
+   * The patches that would undo this update's changes to the state's data.
+   */
+  inversePatches: Patch[]
+  /**
+   * The paths (e.g. `items.0.name`) of the data changed since the previous update.
+   */
+  changedPaths: string[]
+}
+
+// History
+
+/**
+ * A recorded update to a state's data and active states.
+ */
+export type HistoryEntry = {
+  patches: Patch[]
+  inversePatches: Patch[]
+  before: Pick<SerializedState<any>, "active" | "history">
+  after: Pick<SerializedState<any>, "active" | "history">
+}
+
+export type HistoryOptions = {
+  /**
+   * The greatest number of entries to keep in the history. By default, there is no limit.
+   */
+  limit?: number
+}
+
+// Serialized State
+
+/**
+ * A plain snapshot of a state that can be stored or sent elsewhere, then passed to `createState` as `hydrateFrom`. Paths do not include the state's id, so a snapshot may be used to hydrate a state with a different id.
+ */
+export type SerializedState<D> = {
+  data: D
+  active: string[]
+  history: Record<string, string[]>
+  log: string[]
+}
+
+// Devtools
+
+/**
+ * The parts of the Redux DevTools extension (`window.__REDUX_DEVTOOLS_EXTENSION__`) used by `connectDevtools`.
+ */
+export interface DevtoolsExtension {
+  connect: (options?: { name?: string }) => DevtoolsConnection
+}
+
+export interface DevtoolsConnection {
+  init: (state: any) => void
+  send: (action: DevtoolsAction, state: any) => void
+  subscribe: (
+    listener: (message: DevtoolsMessage) => void
+  ) => (() => void) | void
+  unsubscribe?: () => void
+}
+
+export type DevtoolsAction = { type: string; [key: string]: any }
+
+export type DevtoolsMessage = {
+  type: string
+  payload?: { type: string; [key: string]: any }
+  state?: string
+}
+
+export type DevtoolsOptions = {
+  /**
+   * The name of the instance shown in the devtools. Defaults to the state's id.
+   */
+  name?: string
+  /**
+   * The extension to connect to. Defaults to the Redux DevTools extension, if installed.
+   */
+  extension?: DevtoolsExtension
+}
+
+export interface MemoryDevtools extends DevtoolsExtension {
+  /**
+   * Each state sent to the devtools, starting with the initial state.
+   */
+  history: { action: DevtoolsAction; state: any }[]
+  /**
+   * Send a message to the connected state, as the extension would.
+   */
+  dispatch: (message: DevtoolsMessage) => void
+  /**
+   * Jump to the state at an index of `history`.
+   */
+  jumpTo: (index: number) => void
+}
+
+// Persistence
+
+/**
+ * A key-value store for persisted states. The Web Storage API (such as `localStorage`) fits this interface, as do asynchronous stores like React Native's AsyncStorage.
+ */
+export interface StorageAdapter {
+  getItem: (
+    key: string
+  ) => string | null | undefined | Promise<string | null | undefined>
+  setItem: (key: string, value: string) => void | Promise<void>
+  removeItem: (key: string) => void | Promise<void>
+}
+
+/**
+ * What a persistence writes to its storage adapter.
+ */
+export type PersistedState = {
+  version: number
+  data: any
+  active?: string[]
+  history?: Record<string, string[]>
+}
+
+export type PersistOptions = {
+  /**
+   * The key under which to store the state.
+   */
+  key: string
+  /**
+   * The storage adapter to read from and write to.
+   */
+  storage: StorageAdapter
+  /**
+   * Paths (e.g. `settings.theme`) of the parts of the state's data to persist. By default, all of the data is persisted.
+   */
+  pick?: string[]
+  /**
+   * Whether to persist the state's active states and histories. Defaults to `true`.
+   */
+  active?: boolean
+  /**
+   * The version of the persisted data's shape. Defaults to `0`.
+   */
+  version?: number
+  /**
+   * Convert data saved under an earlier version into the current version's shape. Without `migrate`, data saved under a different version is ignored. Active states and histories saved under a different version are never restored.
+   */
+  migrate?: (version: number, oldData: any) => any
+  /**
+   * The number of seconds to wait after the state's last update before writing. Defaults to `0`, so updates made together are written once.
+   */
+  delay?: number
+  /**
+   * A clock to use for debouncing writes, such as one returned by `createTestClock`.
+   */
+  clock?: Clock
+}
+
+export interface Persistence<D> {
+  /**
+   * A plugin that writes the state to storage when the state updates. Pass it to `createState` in the `plugins` option.
+   */
+  plugin: Plugin<D>
+  /**
+   * Read the persisted state from storage and hydrate a state with it. Resolves `true` if a persisted state was restored.
+   */
+  restore: (state: DesignedState<D, any, any, any>) => Promise<boolean>
+  /**
+   * Write any pending update immediately.
+   */
+  flush: () => Promise<void>
+  /**
+   * Cancel any pending update and remove the persisted state from storage.
+   */
+  clear: () => Promise<void>
+}
+
+// Queue
+
+/**
+ * A wait in an event handler that has started but not yet finished.
+ */
+export type Wait = {
+  timeout: any
+  /**
+   * The length of the wait, in milliseconds.
+   */
+  delay: number
+  /**
+   * The time (according to the state's clock) when the wait started.
+   */
+  startedAt: number
+}
+
+/**
+ * A view of the events and waits that a state has not yet finished handling.
+ */
+export type QueueView = {
+  /**
+   * Events waiting to be handled.
+   */
+  pending: Event[]
+  /**
+   * Events held by a state's `defer` until a state that can handle them is entered.
+   */
+  deferred: Event[]
+  /**
+   * Events waiting for their debounce to end.
+   */
+  debounced: Event[]
+  /**
+   * The waits in active states' event handlers.
+   */
+  waits: (Omit<Wait, "timeout"> & { state: string })[]
+}
+
+// Clock
+
+/**
+ * A scheduler used by a state for its waits, repeat events and timing.
+ */
+export interface Clock {
+  now: () => number
+  setTimeout: (callback: () => void, ms: number) => any
+  clearTimeout: (id: any) => void
+  setInterval: (callback: () => void, ms: number) => any
+  clearInterval: (id: any) => void
+  requestAnimationFrame: (callback: (ms: number) => void) => any
+  cancelAnimationFrame: (id: any) => void
+}
+
+export interface TestClock extends Clock {
+  /**
+   * Move the clock forward, running any timers and frames that come due.
+   */
+  advance: (ms: number) => void
+  /**
+   * Move the clock forward until no timeouts remain, running intervals and frames along the way.
+   */
+  runAllTimers: () => void
+}
+
+// Design Validation
+
+export type DesignDiagnosticCode =
+  | "unknown-action"
+  | "unknown-condition"
+  | "unknown-result"
+  | "unknown-async"
+  | "unknown-service"
+  | "unknown-time"
+  | "missing-target"
+  | "ambiguous-target"
+  | "missing-initial"
+  | "initial-without-states"
+  | "initial-then-else"
+  | "final-with-states"
+  | "on-done-without-states"
+  | "unreachable-state"
+
+export type DesignDiagnostic = {
+  code: DesignDiagnosticCode
+  severity: "error" | "warning"
+  message: string
+  /**
+   * The keys leading to the problem in the design object, e.g. `["states", "active", "on", "TOGGLED", 0, "to"]`.
+   */
+  path: (string | number)[]
+}
+
+// State Options
+
+export type StateOptions<D> = {
+  /**
+   * A serialized snapshot (as returned by `serialize`) to restore instead of activating the design's initial states.
+   */
+  hydrateFrom?: SerializedState<D>
+  /**
+   * A clock to use instead of the environment's timers, such as one returned by `createTestClock`.
+   */
+  clock?: Clock
+  /**
+   * Plugins to run around each event, transition and notification, in order.
+   */
+  plugins?: Plugin<D>[]
+  /**
+   * Record each update in an undo history, so that it can be undone with `undo` and redone with `redo`.
+   */
+  history?: boolean | HistoryOptions
+}
+
+// Plugins
+
+export type PluginTransition = {
+  /**
+   * The path of the state (if any) that began the transition.
+   */
+  state?: string
+  targets: string[]
+  before: string[]
+  after: string[]
+}
+
+/**
+ * A set of hooks that run around the events, transitions and notifications of a state.
+ */
+export interface Plugin<D> {
+  name?: string
+  /**
+   * Called before the state handles an event. Return `false` to veto the event, or an event to handle instead.
+   */
+  beforeEvent?: (
+    event: Event,
+    state: DesignedState<D, any, any, any>
+  ) => Event | boolean | void
+  /**
+   * Called after the state has handled an event.
+   */
+  afterEvent?: (event: Event, state: DesignedState<D, any, any, any>) => void
+  /**
+   * Called before the state's active states change. Return `false` to veto the transition.
+   */
+  beforeTransition?: (
+    transition: Omit<PluginTransition, "after">,
+    state: DesignedState<D, any, any, any>
+  ) => boolean | void
+  /**
+   * Called after the state's active states have changed.
+   */
+  afterTransition?: (
+    transition: PluginTransition,
+    state: DesignedState<D, any, any, any>
+  ) => void
+  /**
+   * Called after the state has notified its subscribers.
+   */
+  onNotify?: (state: DesignedState<D, any, any, any>) => void
 }
 
 // State with Design
@@ -385,9 +1284,12 @@ export type StateWithDesign<
 
 export type EventChainOptions<D> = {
   state: State<D, any>
+  clock: Clock
+  inspect: Inspector
   data: D
   result: any
   payload: any
+  context: EventContext
   handler: EventHandler<D>
   onDelayedOutcome: EventChainCallback<D>
   getFreshDataAfterWait: () => D
@@ -406,6 +1308,8 @@ export type EventChainOutcome<D> = {
   shouldNotify: boolean
   pendingTransition: string[]
   pendingSend?: Event
+  patches: Patch[]
+  inversePatches: Patch[]
 }
 
 export type EventChainCallback<D> = (outcome: EventChainOutcome<D>) => void
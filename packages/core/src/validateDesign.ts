@@ -0,0 +1,535 @@
+import {
+  castArray,
+  flatMap,
+  isFunction,
+  isNumber,
+  isString,
+  isUndefined,
+} from "lodash"
+import * as S from "./types"
+
+type Path = (string | number)[]
+
+type StateNode = {
+  design: S.StateDesign<any, any, any, any, any, any, any>
+  path: Path
+  statePath: string
+  parent?: StateNode
+}
+
+/* -------------------------------------------------- */
+/*                   Validate Design                  */
+/* -------------------------------------------------- */
+
+/**
+ * Check a design for problems without creating a state. Returns a list of diagnostics,
+ * each with the path to the problem in the design object. An empty list means that no
+ * problems were found.
+ * @param design The design object to check.
+ * @public
+ * @example
+ * const diagnostics = validateDesign(design)
+ * diagnostics.forEach(({ path, message }) => console.warn(path.join("."), message))
+ */
+export function validateDesign(design: S.Design<any>): S.DesignDiagnostic[] {
+  const diagnostics: S.DesignDiagnostic[] = []
+
+  function report(
+    code: S.DesignDiagnosticCode,
+    path: Path,
+    message: string,
+    severity: "error" | "warning" = "error"
+  ) {
+    diagnostics.push({ code, severity, message, path })
+  }
+
+  /* ---------------------- States ---------------------- */
+
+  const nodes: StateNode[] = []
+
+  function collectStates(node: StateNode) {
+    nodes.push(node)
+
+    for (let [name, child] of Object.entries(node.design.states || {})) {
+      collectStates({
+        design: child,
+        path: [...node.path, "states", name],
+        statePath: node.statePath + "." + name,
+        parent: node,
+      })
+    }
+  }
+
+  collectStates({ design, path: [], statePath: "root" })
+
+  /**
+   * Find the states that a transition target would resolve to, in the same way as a state would.
+   * @param target The transition target, which may end in `.previous` or `.restore`.
+   * @param from The state handling the event.
+   */
+  function findTargets(target: string, from: StateNode) {
+    const path = target.replace(/\.(previous|restore)$/, "")
+
+    // Absolute path
+    if (path.startsWith("#")) {
+      const [id, ...rest] = path.slice(1).split(".")
+      if (!isUndefined(design.id) && id !== design.id) return []
+      return nodes.filter((node) => node.statePath === rest.join("."))
+    }
+
+    const scopes: StateNode[] = []
+    for (let node: StateNode | undefined = from; node; node = node.parent) {
+      scopes.push(node)
+    }
+
+    // Relative path
+    if (path.startsWith(".")) {
+      const depth = path.length - path.replace(/^\.+/, "").length
+      const scope = scopes[depth - 1]
+      if (isUndefined(scope)) return []
+      const statePath = [scope.statePath, ...path.slice(depth).split(".")]
+        .filter(Boolean)
+        .join(".")
+      return nodes.filter((node) => node.statePath === statePath)
+    }
+
+    // Scoped path
+    for (let scope of scopes.slice(from.parent ? 1 : 0)) {
+      const matches = nodes.filter(
+        (node) =>
+          (node === scope ||
+            node.statePath.startsWith(scope.statePath + ".")) &&
+          ("." + node.statePath).endsWith("." + path)
+      )
+
+      if (matches.length > 0) {
+        const shallowest = Math.min(...matches.map((node) => node.path.length))
+        return matches.filter((node) => node.path.length === shallowest)
+      }
+    }
+
+    return []
+  }
+
+  /* -------------------- Collections ------------------- */
+
+  function checkCollectionItem(
+    item: unknown,
+    collection: Record<string, unknown> | undefined,
+    collectionName: string,
+    code: S.DesignDiagnosticCode,
+    path: Path
+  ) {
+    if (!isString(item)) return
+
+    if (isUndefined(collection)) {
+      report(code, path, `No ${collectionName} in design (for ${item})!`)
+    } else if (isUndefined(collection[item])) {
+      report(code, path, `No item in ${collectionName} named ${item}!`)
+    }
+  }
+
+  function checkCollectionItems(
+    items: unknown,
+    collection: Record<string, unknown> | undefined,
+    collectionName: string,
+    code: S.DesignDiagnosticCode,
+    path: Path
+  ) {
+    if (isUndefined(items)) return
+
+    if (Array.isArray(items)) {
+      items.forEach((item, i) =>
+        checkCollectionItem(item, collection, collectionName, code, [
+          ...path,
+          i,
+        ])
+      )
+    } else {
+      checkCollectionItem(items, collection, collectionName, code, path)
+    }
+  }
+
+  function checkTime(item: unknown, path: Path) {
+    if (isNumber(item)) return
+    checkCollectionItem(item, design.times, "times", "unknown-time", path)
+  }
+
+  /* -------------------- Transitions ------------------- */
+
+  let hasDynamicTargets = false
+  const targetedNodes = new Set<StateNode>()
+
+  function checkTarget(target: unknown, path: Path, from: StateNode) {
+    if (isFunction(target)) {
+      hasDynamicTargets = true
+      return
+    }
+
+    if (!isString(target)) return
+
+    const matches = findTargets(target, from)
+
+    if (matches.length === 0) {
+      report(
+        "missing-target",
+        path,
+        `No state with that path (${target}) in the design!`
+      )
+    } else if (matches.length > 1) {
+      report(
+        "ambiguous-target",
+        path,
+        `The target ${target} matches more than one state (${matches
+          .map((node) => node.statePath)
+          .join(", ")}).`,
+        "warning"
+      )
+    }
+
+    matches.forEach((node) => targetedNodes.add(node))
+  }
+
+  function checkTargets(targets: unknown, path: Path, from: StateNode) {
+    if (isUndefined(targets)) return
+
+    if (Array.isArray(targets)) {
+      targets.forEach((target, i) => checkTarget(target, [...path, i], from))
+    } else {
+      checkTarget(targets, path, from)
+    }
+  }
+
+  /* ------------------ Event Handlers ------------------ */
+
+  function checkEventHandlerObject(
+    item: S.EventHandlerObjectDesign<any, any, any, any, any>,
+    path: Path,
+    from: StateNode
+  ) {
+    const { results, conditions, actions } = design
+
+    checkCollectionItems(item.get, results, "results", "unknown-result", [
+      ...path,
+      "get",
+    ])
+
+    for (let key of ["if", "ifAny", "unless", "unlessAny"] as const) {
+      checkCollectionItems(
+        item[key],
+        conditions,
+        "conditions",
+        "unknown-condition",
+        [...path, key]
+      )
+    }
+
+    for (let key of ["do", "secretlyDo"] as const) {
+      checkCollectionItems(item[key], actions, "actions", "unknown-action", [
+        ...path,
+        key,
+      ])
+    }
+
+    for (let key of ["to", "secretlyTo"] as const) {
+      checkTargets(item[key], [...path, key], from)
+    }
+
+    if (!isUndefined(item.wait)) {
+      checkTime(item.wait, [...path, "wait"])
+    }
+
+    if (!isUndefined(item.then)) {
+      checkEventHandler(item.then, [...path, "then"], from)
+    }
+
+    if (!isUndefined(item.else)) {
+      checkEventHandler(item.else, [...path, "else"], from)
+    }
+  }
+
+  function checkEventHandler(
+    handler: S.EventHandlerDesign<any, any, any, any, any>,
+    path: Path,
+    from: StateNode
+  ) {
+    const items = castArray(handler)
+
+    items.forEach((item, i) => {
+      const itemPath = Array.isArray(handler) ? [...path, i] : path
+
+      if (isString(item)) {
+        checkCollectionItem(
+          item,
+          design.actions,
+          "actions",
+          "unknown-action",
+          itemPath
+        )
+      } else if (!isFunction(item)) {
+        checkEventHandlerObject(item, itemPath, from)
+      }
+    })
+  }
+
+  /* ------------------ Initial States ------------------ */
+
+  function checkInitial(
+    initial: S.InitialStateDesign<any, any, any>,
+    node: StateNode,
+    path: Path
+  ) {
+    const children = node.design.states || {}
+
+    if (isString(initial)) {
+      if (isUndefined(children[initial])) {
+        report(
+          "missing-initial",
+          path,
+          `In ${node.statePath}, the initial state (${initial}) is not one of its states!`
+        )
+      }
+      return
+    }
+
+    const withLogic = initial as S.InitialStateObjectDesignWithLogic<
+      any,
+      any,
+      any
+    >
+
+    if (isFunction(withLogic.to)) {
+      hasDynamicTargets = true
+    } else if (!isUndefined(withLogic.to)) {
+      checkInitial(withLogic.to, node, [...path, "to"])
+    }
+
+    const { results, conditions } = design
+
+    checkCollectionItems(withLogic.get, results, "results", "unknown-result", [
+      ...path,
+      "get",
+    ])
+
+    for (let key of ["if", "ifAny", "unless", "unlessAny"] as const) {
+      checkCollectionItems(
+        withLogic[key],
+        conditions,
+        "conditions",
+        "unknown-condition",
+        [...path, key]
+      )
+    }
+
+    if (!isUndefined(withLogic.then) && !isUndefined(withLogic.else)) {
+      report(
+        "initial-then-else",
+        path,
+        `In ${node.statePath}, the initial state has both a then and an else property. When its conditions pass, its to property will be ignored.`,
+        "warning"
+      )
+    }
+
+    if (!isUndefined(withLogic.then)) {
+      checkInitial(withLogic.then, node, [...path, "then"])
+    }
+
+    if (!isUndefined(withLogic.else)) {
+      checkInitial(withLogic.else, node, [...path, "else"])
+    }
+  }
+
+  /**
+   * Get the names of child states that a state's initial property may point to.
+   * @param initial
+   */
+  function getInitialNames(
+    initial: S.InitialStateDesign<any, any, any>
+  ): string[] {
+    if (isString(initial)) return [initial]
+
+    const withLogic = initial as S.InitialStateObjectDesignWithLogic<
+      any,
+      any,
+      any
+    >
+
+    return flatMap([withLogic.to, withLogic.then, withLogic.else], (item) =>
+      isUndefined(item) || isFunction(item) ? [] : getInitialNames(item)
+    )
+  }
+
+  /* ---------------------- Checks ---------------------- */
+
+  for (let node of nodes) {
+    const { design: state, path } = node
+
+    if (!isUndefined(state.initial)) {
+      if (isUndefined(state.states)) {
+        report(
+          "initial-without-states",
+          [...path, "initial"],
+          `In ${node.statePath}, you've provided an initial state but no states!`
+        )
+      } else {
+        checkInitial(state.initial, node, [...path, "initial"])
+      }
+    }
+
+    if (state.final && !isUndefined(state.states)) {
+      report(
+        "final-with-states",
+        [...path, "final"],
+        `In ${node.statePath}, you've marked a state as final but it has states!`
+      )
+    }
+
+    if (!isUndefined(state.onDone) && isUndefined(state.states)) {
+      report(
+        "on-done-without-states",
+        [...path, "onDone"],
+        `In ${node.statePath}, you've provided an onDone event but no states!`
+      )
+    }
+
+    for (let [eventName, handler] of Object.entries(state.on || {})) {
+      if (!isUndefined(handler)) {
+        checkEventHandler(handler, [...path, "on", eventName], node)
+      }
+    }
+
+    for (let key of ["onEnter", "onExit", "onEvent", "onDone"] as const) {
+      const handler = state[key]
+      if (!isUndefined(handler)) {
+        checkEventHandler(handler, [...path, key], node)
+      }
+    }
+
+    if (!isUndefined(state.repeat)) {
+      checkEventHandler(
+        state.repeat.onRepeat,
+        [...path, "repeat", "onRepeat"],
+        node
+      )
+
+      if (!isUndefined(state.repeat.delay)) {
+        checkTime(state.repeat.delay, [...path, "repeat", "delay"])
+      }
+    }
+
+    for (let [key, handler] of Object.entries(state.after || {})) {
+      if (isNaN(Number(key))) {
+        checkTime(key, [...path, "after", key])
+      }
+
+      if (!isUndefined(handler)) {
+        checkEventHandler(handler, [...path, "after", key], node)
+      }
+    }
+
+    if (!isUndefined(state.async)) {
+      const { async } = state
+      const asyncEvents = castArray(async)
+
+      asyncEvents.forEach((asyncEvent, i) => {
+        const asyncPath = Array.isArray(async)
+          ? [...path, "async", i]
+          : [...path, "async"]
+
+        checkCollectionItem(
+          asyncEvent.await,
+          design.asyncs,
+          "asyncs",
+          "unknown-async",
+          [...asyncPath, "await"]
+        )
+
+        checkEventHandler(
+          asyncEvent.onResolve,
+          [...asyncPath, "onResolve"],
+          node
+        )
+
+        for (let key of ["onReject", "onProgress"] as const) {
+          const handler = asyncEvent[key]
+          if (!isUndefined(handler)) {
+            checkEventHandler(handler, [...asyncPath, key], node)
+          }
+        }
+
+        if (!isUndefined(asyncEvent.timeout)) {
+          checkTime(asyncEvent.timeout, [...asyncPath, "timeout"])
+        }
+      })
+    }
+
+    checkCollectionItems(
+      state.service,
+      design.services,
+      "services",
+      "unknown-service",
+      [...path, "service"]
+    )
+
+    if (!isUndefined(state.machine)) {
+      const { machine } = state
+
+      if (!isUndefined(machine.onDone)) {
+        checkEventHandler(machine.onDone, [...path, "machine", "onDone"], node)
+      }
+
+      // Check the child machine's design on its own terms
+      for (let diagnostic of validateDesign(machine.design)) {
+        diagnostics.push({
+          ...diagnostic,
+          path: [...path, "machine", "design", ...diagnostic.path],
+        })
+      }
+    }
+  }
+
+  /* ------------------- Reachability ------------------- */
+
+  // If any targets are computed, we can't know which states are reachable.
+  if (!hasDynamicTargets) {
+    const reachable = new Set<StateNode>([nodes[0]])
+
+    // A targeted state, and all of its ancestors, are reachable.
+    targetedNodes.forEach((node) => {
+      let current: StateNode | undefined = node
+      while (current !== undefined) {
+        reachable.add(current)
+        current = current.parent
+      }
+    })
+
+    // Children of reachable states are reachable through their parent's initial state.
+    for (let node of nodes) {
+      const { parent } = node
+
+      if (
+        parent !== undefined &&
+        reachable.has(parent) &&
+        (isUndefined(parent.design.initial) ||
+          getInitialNames(parent.design.initial).includes(
+            node.path[node.path.length - 1] as string
+          ))
+      ) {
+        reachable.add(node)
+      }
+    }
+
+    for (let node of nodes) {
+      if (!reachable.has(node)) {
+        report(
+          "unreachable-state",
+          node.path,
+          `The state ${node.statePath} is not an initial state and is never targeted by a transition.`,
+          "warning"
+        )
+      }
+    }
+  }
+
+  return diagnostics
+}
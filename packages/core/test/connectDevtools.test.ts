@@ -0,0 +1,66 @@
+import { createState, connectDevtools, createMemoryDevtools } from "../src"
+import { counterDesign } from "./shared"
+
+describe("connectDevtools", () => {
+  it("Should send each event to the devtools.", async () => {
+    const state = createState(counterDesign)
+    const devtools = createMemoryDevtools()
+    connectDevtools(state, { extension: devtools })
+
+    expect(devtools.history.length).toBe(1)
+    expect(devtools.history[0].state.data.count).toBe(1)
+
+    await state.send("TOGGLED")
+    await state.send("CLICKED_PLUS")
+
+    expect(devtools.history.map((entry) => entry.action.type)).toMatchObject([
+      "@@INIT",
+      "TOGGLED",
+      "CLICKED_PLUS",
+    ])
+
+    expect(devtools.history[1].state.active).toContain("root.active")
+    expect(devtools.history[2].action.diff).toMatchObject({ count: [1, 2] })
+    expect(devtools.history[2].state.data.count).toBe(2)
+  })
+
+  it("Should restore snapshots when jumping.", async () => {
+    const state = createState(counterDesign)
+    const devtools = createMemoryDevtools()
+    connectDevtools(state, { extension: devtools })
+
+    await state.send("TOGGLED")
+    await state.send("CLICKED_PLUS")
+    expect(state.data.count).toBe(2)
+
+    const updates: number[] = []
+    state.onUpdate((update) => updates.push(update.data.count))
+
+    devtools.jumpTo(1)
+    expect(state.data.count).toBe(1)
+    expect(state.isIn("active")).toBeTruthy()
+
+    devtools.jumpTo(0)
+    expect(state.isIn("inactive")).toBeTruthy()
+    expect(updates).toMatchObject([1, 1])
+
+    // Jumping should not add to the devtools' history
+    expect(devtools.history.length).toBe(3)
+  })
+
+  it("Should stop sending events after disconnecting.", async () => {
+    const state = createState(counterDesign)
+    const devtools = createMemoryDevtools()
+    const disconnect = connectDevtools(state, { extension: devtools })
+
+    disconnect()
+    await state.send("CLICKED_PLUS")
+
+    expect(devtools.history.length).toBe(1)
+  })
+
+  it("Should do nothing without an extension.", () => {
+    const state = createState(counterDesign)
+    expect(() => connectDevtools(state)()).not.toThrow()
+  })
+})
@@ -1,4 +1,4 @@
-import { createDesign } from "../src"
+import { createDesign, createState } from "../src"
 import { design } from "./shared"
 
 describe("createDesign", () => {
@@ -14,4 +14,80 @@ describe("createDesign", () => {
     expect(design.asyncs).toBeTruthy()
     expect(design.times).toBeTruthy()
   })
+
+  it("Should type results in event handler objects.", async () => {
+    const counter = createDesign({
+      data: { count: 1, log: [] as string[] },
+      results: {
+        doubleCount(d) {
+          return d.count * 2
+        },
+        label(d) {
+          return { text: "count " + d.count }
+        },
+      },
+    })
+
+    const logDouble = counter.createEventHandlerObjectDesign({
+      get: "doubleCount",
+      if: (_, __, double) => double > 1,
+      do: (d, _, double) => {
+        d.count = double
+      },
+      then: { do: (d, _, double) => d.log.push(double.toFixed()) },
+    })
+
+    const logLabel = counter.createEventHandlerObjectDesign({
+      get: ["doubleCount", "label"],
+      do: (d, _, label) => d.log.push(label.text),
+    })
+
+    const state = createState({
+      ...counter,
+      on: { DOUBLED: logDouble, LABELLED: logLabel },
+    })
+
+    await state.send("DOUBLED")
+    await state.send("LABELLED")
+    expect(state.data.log).toEqual(["2", "count 2"])
+
+    // Handler objects may also be created inline, in `on` or `onEnter`.
+    const inline = createState({
+      ...counter,
+      onEnter: counter.createEventHandlerObjectDesign({
+        get: "label",
+        do: (d, _, label) => d.log.push(label.text),
+      }),
+      on: {
+        DOUBLED: counter.createEventHandlerObjectDesign({
+          get: "doubleCount",
+          do: (d, _, double) => d.log.push(double.toFixed()),
+        }),
+      },
+    })
+
+    await inline.send("DOUBLED")
+    expect(inline.data.log).toEqual(["count 1", "2"])
+
+    // These should not compile.
+    // @ts-ignore
+    const typeErrors = () => {
+      counter.createEventHandlerObjectDesign({
+        get: "doubleCount",
+        // @ts-expect-error
+        do: (_, __, double) => double.text,
+      })
+
+      counter.createEventHandlerObjectDesign({
+        get: ["label", "doubleCount"],
+        // @ts-expect-error
+        to: (_, __, double) => double.text,
+      })
+
+      counter.createEventHandlerObjectDesign({
+        // @ts-expect-error
+        get: "tripleCount",
+      })
+    }
+  })
 })
@@ -0,0 +1,121 @@
+import {
+  createDesign,
+  createState,
+  createTestClock,
+  createPersistence,
+  createMemoryStorage,
+  createLocalStorage,
+} from "../src"
+import { counterDesign } from "./shared"
+
+describe("createPersistence", () => {
+  it("Should write debounced updates to storage.", async () => {
+    const clock = createTestClock()
+    const storage = createMemoryStorage()
+    const persistence = createPersistence({
+      key: "counter",
+      storage,
+      delay: 1,
+      clock,
+    })
+
+    const state = createState(counterDesign, {
+      plugins: [persistence.plugin],
+    })
+
+    await state.send("TOGGLED")
+    await state.send("CLICKED_PLUS")
+    expect(storage.getItem("counter")).toBeUndefined()
+
+    clock.advance(1000)
+    expect(JSON.parse(storage.getItem("counter") as string)).toMatchObject({
+      version: 0,
+      data: { count: 2 },
+      active: ["root", "root.active"],
+    })
+
+    await persistence.clear()
+    expect(storage.getItem("counter")).toBeUndefined()
+  })
+
+  it("Should restore picked data and active states.", async () => {
+    const storage = createMemoryStorage()
+    const persistence = createPersistence({
+      key: "settings",
+      storage,
+      pick: ["theme"],
+    })
+
+    const design = createDesign({
+      data: { theme: "light", draft: "" },
+      initial: "closed",
+      states: {
+        closed: { on: { OPENED: { to: "open" } } },
+        open: {},
+      },
+      on: {
+        CHANGED: {
+          do: (data) => {
+            data.theme = "dark"
+            data.draft = "unsaved"
+          },
+        },
+      },
+    })
+
+    const state = createState(design, { plugins: [persistence.plugin] })
+    await state.send("OPENED")
+    await state.send("CHANGED")
+    await persistence.flush()
+
+    const restored = createState(design)
+    expect(await persistence.restore(restored)).toBe(true)
+    expect(restored.data).toEqual({ theme: "dark", draft: "" })
+    expect(restored.isIn("open")).toBe(true)
+  })
+
+  it("Should migrate data from earlier versions.", async () => {
+    const storage = createMemoryStorage()
+
+    // Active states saved under an earlier version may no longer exist
+    storage.setItem(
+      "counter",
+      JSON.stringify({
+        version: 1,
+        data: { value: 5 },
+        active: ["root", "root.old"],
+        history: { root: ["old"] },
+      })
+    )
+
+    const withoutMigrate = createPersistence({
+      key: "counter",
+      storage,
+      version: 2,
+    })
+
+    const state = createState(counterDesign)
+    expect(await withoutMigrate.restore(state)).toBe(false)
+    expect(state.data.count).toBe(1)
+
+    const persistence = createPersistence({
+      key: "counter",
+      storage,
+      version: 2,
+      migrate: (version, oldData) =>
+        version === 1 ? { count: oldData.value } : oldData,
+    })
+
+    expect(await persistence.restore(state)).toBe(true)
+    expect(state.data.count).toBe(5)
+    expect(state.isIn("inactive")).toBe(true)
+  })
+
+  it("Should support localStorage.", () => {
+    const storage = createLocalStorage()
+    storage.setItem("counter", "saved")
+    expect(window.localStorage.getItem("counter")).toBe("saved")
+    storage.removeItem("counter")
+    expect(storage.getItem("counter")).toBeNull()
+  })
+})
@@ -1,4 +1,4 @@
-import { createDesign, createState } from "../src"
+import { S, createDesign, createState, createTestClock } from "../src"
 import { design, counterDesign } from "./shared"
 
 jest.useFakeTimers()
@@ -190,6 +190,7 @@ describe("createState", () => {
     expect(counter.isIn("active")).toBeFalsy()
     expect(counter.isIn("inactive")).toBeTruthy()
     expect(counter.isIn("active", "inactive")).toBeFalsy()
+    // @ts-expect-error
     expect(counter.isIn("missing")).toBeFalsy()
     done()
   })
@@ -199,6 +200,7 @@ describe("createState", () => {
     expect(counter.isIn("active")).toBeFalsy()
     expect(counter.isIn("inactive")).toBeTruthy()
     expect(counter.isInAny("active", "inactive")).toBeTruthy()
+    // @ts-expect-error
     expect(counter.isInAny("missing")).toBeFalsy()
     done()
   })
@@ -383,6 +385,333 @@ describe("createState", () => {
     expect(state.isIn("a2", "b2", "c2")).toBeTruthy()
   })
 
+  it("Should run onEnter and onExit once for multiple transitions.", () => {
+    const state = createState({
+      data: { enters: 0, exits: 0 },
+      states: {
+        bold: {
+          initial: "enabled",
+          states: {
+            enabled: { onExit: (d) => d.exits++ },
+            disabled: { onEnter: (d) => d.enters++ },
+          },
+        },
+        italic: {
+          initial: "enabled",
+          states: {
+            enabled: { onExit: (d) => d.exits++ },
+            disabled: { onEnter: (d) => d.enters++ },
+          },
+        },
+        other: {
+          onEnter: (d) => d.enters++,
+          onExit: (d) => d.exits++,
+        },
+      },
+      on: {
+        DISABLED: { to: ["bold.disabled", "italic.disabled"] },
+      },
+    })
+
+    expect(state.data.enters).toBe(1)
+    state.send("DISABLED")
+    expect(state.isIn("bold.disabled", "italic.disabled")).toBeTruthy()
+    expect(state.data.enters).toBe(3)
+    expect(state.data.exits).toBe(2)
+  })
+
+  it("Should throw errors for conflicting transition targets.", () => {
+    const state = createState({
+      initial: "a",
+      states: {
+        a: {},
+        b: {},
+      },
+    })
+
+    expect(() => state.forceTransition(["a", "b"])).toThrowError(
+      /same branch state/
+    )
+    expect(state.isIn("a")).toBeTruthy()
+  })
+
+  it("Should only follow a target's path in the branch it names.", () => {
+    const state = createState({
+      states: {
+        a: {
+          initial: "x",
+          states: { x: {}, y: {} },
+        },
+        b: {
+          initial: "c",
+          states: { c: {}, a: {} },
+        },
+      },
+      on: {
+        MOVED: { to: "a.y" },
+      },
+    })
+
+    state.send("MOVED")
+    expect(state.isIn("root.a.y")).toBeTruthy()
+    expect(state.isIn("root.b.c")).toBeTruthy()
+    expect(state.isIn("root.b.a")).toBeFalsy()
+  })
+
+  it("Should prefer transition targets near the handling state.", async () => {
+    const state = createState({
+      id: "player",
+      states: {
+        audio: {
+          initial: "idle",
+          states: {
+            idle: { on: { PLAYED: { to: "playing" } } },
+            playing: { on: { STOPPED: { to: "idle" } } },
+          },
+        },
+        video: {
+          initial: "playing",
+          states: {
+            idle: {},
+            playing: {
+              on: {
+                PAUSED: { to: "..idle" },
+                RESET: { to: "#player.root.audio.idle" },
+              },
+            },
+          },
+        },
+      },
+    })
+
+    await state.send("PLAYED")
+    expect(state.isIn("audio.playing")).toBeTruthy()
+    expect(state.isIn("video.playing")).toBeTruthy()
+
+    await state.send("STOPPED")
+    expect(state.isIn("audio.idle")).toBeTruthy()
+    expect(state.isIn("video.playing")).toBeTruthy()
+
+    await state.send("PLAYED")
+    await state.send("RESET")
+    expect(state.isIn("audio.idle")).toBeTruthy()
+
+    await state.send("PAUSED")
+    expect(state.isIn("video.idle")).toBeTruthy()
+  })
+
+  it("Should warn about ambiguous transition targets.", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {})
+
+    const state = createState({
+      initial: "a",
+      states: {
+        a: { initial: "idle", states: { idle: {} } },
+        b: { initial: "idle", states: { idle: {} } },
+      },
+    })
+
+    state.forceTransition("idle")
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(state.isIn("b.idle")).toBeTruthy()
+
+    warn.mockRestore()
+  })
+
+  it("Should emit inspection records.", async () => {
+    const clock = createTestClock()
+
+    const state = createState(
+      {
+        data: { count: 0 },
+        initial: "idle",
+        states: {
+          idle: {
+            on: {
+              CLICKED: [
+                { if: "isNegative", do: "increment" },
+                { get: "double", do: "increment", to: "busy" },
+              ],
+            },
+          },
+          busy: { onEnter: { wait: 1, to: "idle" } },
+        },
+        results: {
+          double: (data) => data.count * 2,
+        },
+        conditions: {
+          isNegative: (data) => data.count < 0,
+        },
+        actions: {
+          increment: (data) => {
+            data.count++
+          },
+        },
+      },
+      { clock }
+    )
+
+    const records: S.InspectRecord[] = []
+    const stop = state.inspect((record) => records.push(record))
+
+    await state.send("CLICKED", 5)
+
+    expect(records.map((r) => r.type)).toMatchObject([
+      S.VerboseType.Event,
+      S.VerboseType.Condition,
+      S.VerboseType.EventHandler,
+      S.VerboseType.Result,
+      S.VerboseType.EventHandler,
+      S.VerboseType.Action,
+      S.VerboseType.Transition,
+      S.VerboseType.Wait,
+      S.VerboseType.Queue,
+      S.VerboseType.Notification,
+    ])
+
+    expect(records[0]).toMatchObject({ event: "CLICKED", payload: 5 })
+    expect(records[1]).toMatchObject({ name: "isNegative", passed: false })
+    expect(records[3]).toMatchObject({ name: "double", result: 0 })
+    expect(records[6]).toMatchObject({
+      state: state.id + ".root.idle",
+      targets: [state.id + ".root.busy"],
+      before: [state.id + ".root", state.id + ".root.idle"],
+      after: [state.id + ".root", state.id + ".root.busy"],
+    })
+    expect(records[7]).toMatchObject({ delay: 1000 })
+
+    stop()
+    clock.advance(1000)
+    expect(state.isIn("idle")).toBeTruthy()
+    expect(records.length).toBe(10)
+  })
+
+  it("Should type check events and payloads.", async () => {
+    const state = createState({
+      data: { count: 0 },
+      events: {} as {
+        ADDED: number
+        RESET: undefined
+        SET: number | undefined
+      },
+      on: {
+        ADDED: { do: (data, payload) => (data.count += payload) },
+        RESET: { do: "reset" },
+        SET: { do: (data, payload = 10) => (data.count = payload) },
+      },
+      actions: {
+        reset(data) {
+          data.count = 0
+        },
+      },
+    })
+
+    await state.send("ADDED", 5)
+    expect(state.data.count).toBe(5)
+    expect(state.can("ADDED", 1)).toBeTruthy()
+    await state.thenSend("RESET")()
+    expect(state.data.count).toBe(0)
+    await state.send("SET")
+    expect(state.data.count).toBe(10)
+
+    // These should not compile.
+    // @ts-ignore
+    const typeErrors = () => {
+      // @ts-expect-error
+      state.send("REMOVED")
+      // @ts-expect-error
+      state.send("ADDED", "5")
+      // @ts-expect-error
+      state.send("ADDED")
+      // @ts-expect-error
+      state.can("REMOVED")
+      // @ts-expect-error
+      state.thenSend("ADDED")
+
+      createDesign({
+        events: {} as { ADDED: number },
+        on: {
+          // @ts-expect-error
+          REMOVED: { do: () => {} },
+        },
+      })
+    }
+  })
+
+  it("Should type check state paths and targets.", () => {
+    const state = createState({
+      data: { count: 0 },
+      on: { STOPPED: { to: "stopped" } },
+      initial: "playing",
+      states: {
+        playing: {
+          initial: "paused",
+          onEnter: { do: (data) => data.count++ },
+          states: {
+            paused: { on: { PLAYED: { to: "running" } } },
+            running: { on: { PAUSED: { to: "paused.previous" } } },
+          },
+        },
+        stopped: {
+          on: { PLAYED: { to: ["playing.restore"] } },
+        },
+      },
+    })
+
+    state.forceTransition("running")
+    expect(state.isIn("playing.running")).toBeTruthy()
+    expect(state.isIn("root.playing", "running")).toBeTruthy()
+    expect(state.whenIn({ stopped: 1, "playing.running": 2 })).toBe(2)
+
+    // These should not compile.
+    // @ts-ignore
+    const typeErrors = () => {
+      // @ts-expect-error
+      state.isIn("playng")
+      // @ts-expect-error
+      state.isInAny("playing", "paused.running")
+      // @ts-expect-error
+      state.forceTransition("stoped")
+      // @ts-expect-error
+      state.whenIn({ playng: 1 })
+
+      // @ts-expect-error
+      createState({
+        initial: "a",
+        states: { a: { on: { NEXT: { to: "b" } } } },
+      })
+
+      // @ts-expect-error
+      createDesign({
+        on: { RESET: { to: "idle.previous" } },
+        initial: "a",
+        states: { a: {} },
+      })
+
+      // Child machines' states may be found, but not transitioned to.
+      const machine = {
+        design: { initial: "question", states: { question: {}, answered: {} } },
+      }
+
+      const asking = createState({
+        initial: "asking",
+        states: { asking: { machine }, done: {} },
+      })
+
+      asking.isIn("asking.answered")
+      // @ts-expect-error
+      asking.forceTransition("answered")
+
+      // @ts-expect-error
+      createState({
+        initial: "asking",
+        states: {
+          asking: { machine, on: { SKIPPED: { to: "answered" } } },
+        },
+      })
+    }
+  })
+
   // Do onExit events work?
 
   it("Should support onEnter and onExit events.", async (done) => {
@@ -647,6 +976,56 @@ describe("createState", () => {
     expect(state.isIn("cb")).toBeTruthy()
   })
 
+  // Can a state be serialized and hydrated?
+  it("Should support serializing and hydrating.", () => {
+    const state = createState(counterDesign)
+    state.send("TOGGLED")
+    state.send("CLICKED_PLUS")
+
+    const serialized = JSON.parse(JSON.stringify(state.serialize()))
+    expect(serialized.active).toMatchObject(["root", "root.active"])
+    expect(serialized.log).toMatchObject(["CLICKED_PLUS", "TOGGLED"])
+
+    const hydrated = createState(counterDesign, { hydrateFrom: serialized })
+    expect(hydrated.isIn("active")).toBeTruthy()
+    expect(hydrated.data.count).toBe(2)
+    expect(hydrated.log).toMatchObject(["CLICKED_PLUS", "TOGGLED"])
+    // onEnter events should not run again
+    expect(hydrated.data.activations).toBe(1)
+    hydrated.send("TOGGLED")
+    expect(hydrated.isIn("inactive")).toBeTruthy()
+    expect(hydrated.data.deactivations).toBe(1)
+  })
+
+  it("Should restore histories when hydrating.", () => {
+    const state = createState(previousDesign)
+    state.send("TO_B")
+    state.send("TO_BB")
+    state.send("TO_CB")
+    state.send("TO_A")
+
+    const hydrated = createState(previousDesign, {
+      hydrateFrom: state.serialize(),
+    })
+    expect(hydrated.isIn("a")).toBeTruthy()
+    hydrated.send("RESTORE_B")
+    expect(hydrated.isIn("bb")).toBeTruthy()
+    expect(hydrated.isIn("cb")).toBeTruthy()
+  })
+
+  it("Should throw errors when hydrating from a missing path.", () => {
+    expect(() =>
+      createState(counterDesign, {
+        hydrateFrom: {
+          data: { count: 1, activations: 0, deactivations: 0 },
+          active: ["root", "root.missing"],
+          history: {},
+          log: [],
+        },
+      })
+    ).toThrowError()
+  })
+
   // Does WhenIn work?
   it("Should support whenIn.", () => {
     const state = createState({
@@ -680,6 +1059,228 @@ describe("createState", () => {
     expect(state.whenIn(keys, (a, [_, v]) => a + v, "")).toBe("cdef")
   })
 
+  // Do final states work?
+  it("Should support final states in branch states.", () => {
+    const state = createState({
+      data: { completed: 0 },
+      initial: "wizard",
+      states: {
+        wizard: {
+          initial: "step1",
+          onDone: { do: (d) => d.completed++, to: "summary" },
+          states: {
+            step1: { on: { NEXT: { to: "step2" } } },
+            step2: { on: { NEXT: { to: "finished" } } },
+            finished: { final: true },
+          },
+        },
+        summary: {},
+      },
+    })
+
+    state.send("NEXT")
+    expect(state.isIn("step2")).toBeTruthy()
+    state.send("NEXT")
+    expect(state.isIn("summary")).toBeTruthy()
+    expect(state.data.completed).toBe(1)
+  })
+
+  it("Should support final states in parallel states.", () => {
+    const state = createState({
+      data: { done: false },
+      initial: "uploading",
+      states: {
+        uploading: {
+          onDone: { do: (d) => (d.done = true) },
+          states: {
+            first: {
+              initial: "pending",
+              states: {
+                pending: { on: { FINISHED_FIRST: { to: "first.complete" } } },
+                complete: { final: true },
+              },
+            },
+            second: {
+              initial: "pending",
+              states: {
+                pending: { on: { FINISHED_SECOND: { to: "second.complete" } } },
+                complete: { final: true },
+              },
+            },
+          },
+        },
+      },
+    })
+
+    state.send("FINISHED_FIRST")
+    expect(state.data.done).toBeFalsy()
+    state.send("FINISHED_SECOND")
+    expect(state.data.done).toBeTruthy()
+  })
+
+  it("Should throw errors when a state with states is final.", () => {
+    expect(() =>
+      createState({
+        states: {
+          a: { final: true, initial: "b", states: { b: {} } },
+        },
+      })
+    ).toThrowError()
+  })
+
+  it("Should support final states in child machines.", () => {
+    const state = createState({
+      data: { result: "" },
+      initial: "asking",
+      states: {
+        asking: {
+          machine: {
+            design: {
+              data: { answer: "yes" },
+              initial: "question",
+              states: {
+                question: { on: { ANSWERED: { to: "answered" } } },
+                answered: { final: true },
+              },
+            },
+            onDone: { do: (d, _, r) => (d.result = r.answer), to: "done" },
+          },
+        },
+        done: {},
+      },
+    })
+
+    state.send("ANSWERED")
+    expect(state.isIn("done")).toBeTruthy()
+    expect(state.data.result).toBe("yes")
+  })
+
+  // Do child machines work?
+  it("Should support child machines.", () => {
+    const loader = createDesign({
+      data: { attempts: 0 },
+      initial: "fetching",
+      states: {
+        fetching: {
+          on: {
+            FAILED: { do: (d) => d.attempts++, to: "retrying" },
+            SUCCEEDED: { to: "loaded" },
+          },
+        },
+        retrying: {
+          on: { RETRIED: { to: "fetching" } },
+        },
+        loaded: {},
+      },
+    })
+
+    const state = createState({
+      data: { attempts: 0 },
+      initial: "idle",
+      states: {
+        idle: {
+          on: { STARTED: { to: "loading" } },
+        },
+        loading: {
+          on: { CANCELLED: { to: "idle" } },
+          machine: {
+            design: loader,
+            final: "loaded",
+            onDone: {
+              do: (data, _, result) => (data.attempts = result.attempts),
+              to: "ready",
+            },
+          },
+        },
+        ready: {},
+      },
+    })
+
+    expect(state.isIn("loading.fetching")).toBeFalsy()
+    state.send("STARTED")
+    expect(state.isIn("loading.fetching")).toBeTruthy()
+    expect(state.whenIn({ "loading.fetching": "fetching" })).toBe("fetching")
+    state.send("FAILED")
+    expect(state.isIn("loading.retrying")).toBeTruthy()
+    state.send("CANCELLED")
+    expect(state.isIn("idle")).toBeTruthy()
+    expect(state.isIn("retrying")).toBeFalsy()
+
+    // Re-entering creates a new child machine
+    state.send("STARTED")
+    expect(state.isIn("loading.fetching")).toBeTruthy()
+    state.send("SUCCEEDED")
+    expect(state.isIn("ready")).toBeTruthy()
+    expect(state.data.attempts).toBe(0)
+  })
+
+  it("Should restart child machines when restoring.", () => {
+    const design = createDesign({
+      data: { count: 0 },
+      initial: "idle",
+      states: {
+        idle: { on: { STARTED: { to: "asking" } } },
+        asking: {
+          machine: {
+            design: {
+              initial: "question",
+              states: {
+                question: { on: { ANSWERED: { to: "answered" } } },
+                answered: { final: true },
+              },
+            },
+            onDone: { to: "done" },
+          },
+        },
+        done: {},
+      },
+      on: { INCREASED: (d) => d.count++ },
+    })
+
+    const state = createState(design, { history: true })
+    state.send("STARTED")
+
+    const hydrated = createState(design, { hydrateFrom: state.serialize() })
+    expect(hydrated.isIn("asking.question")).toBeTruthy()
+    hydrated.send("ANSWERED")
+    expect(hydrated.isIn("done")).toBeTruthy()
+
+    state.send("INCREASED")
+    state.undo()
+    expect(state.isIn("asking.question")).toBeTruthy()
+    state.send("ANSWERED")
+    expect(state.isIn("done")).toBeTruthy()
+  })
+
+  it("Should stop child machines on exit.", () => {
+    jest.clearAllTimers()
+
+    const state = createState({
+      data: { ticks: 0 },
+      initial: "running",
+      states: {
+        running: {
+          on: { STOPPED: { to: "stopped" } },
+          machine: {
+            design: {
+              data: { ticks: 0 },
+              repeat: { delay: 1, onRepeat: (d) => d.ticks++ },
+            },
+          },
+        },
+        stopped: {},
+      },
+    })
+
+    let updates = 0
+    state.onUpdate(() => updates++)
+    jest.advanceTimersByTime(2000)
+    expect(updates).toBe(2)
+    state.send("STOPPED")
+    jest.advanceTimersByTime(2000)
+    expect(updates).toBe(3)
+  })
+
   it("Should support wait.", async (done) => {
     const state = createState({
       data: { count: 0 },
@@ -714,6 +1315,750 @@ describe("createState", () => {
     done()
   })
 
+  it("Should clear every pending wait when a state is exited.", () => {
+    const clock = createTestClock()
+    const state = createState(
+      {
+        data: { count: 0 },
+        initial: "active",
+        states: {
+          active: {
+            on: {
+              TRIGGERED: { do: "increment", wait: 1 },
+              STOPPED: { to: "inactive" },
+            },
+          },
+          inactive: {},
+        },
+        actions: {
+          increment(data) {
+            data.count++
+          },
+        },
+      },
+      { clock }
+    )
+
+    state.send("TRIGGERED")
+    clock.advance(500)
+    state.send("TRIGGERED")
+    state.send("STOPPED")
+    clock.runAllTimers()
+    expect(state.data.count).toBe(0)
+  })
+
+  it("Should support after events.", () => {
+    const clock = createTestClock()
+    const state = createState(
+      {
+        data: { count: 0, sleeping: false },
+        initial: "idle",
+        states: {
+          idle: {
+            on: { STARTED: { to: "active" } },
+          },
+          active: {
+            on: { STOPPED: { to: "idle" } },
+            after: {
+              1: "increment",
+              1.5: "increment",
+              longDelay: { do: "sleep", to: "idle" },
+            },
+          },
+        },
+        times: {
+          longDelay: () => 3,
+        },
+        actions: {
+          increment(data) {
+            data.count++
+          },
+          sleep(data) {
+            data.sleeping = true
+          },
+        },
+      },
+      { clock }
+    )
+
+    let updates = 0
+    state.onUpdate(() => updates++)
+
+    state.send("STARTED")
+    clock.advance(1000)
+    expect(state.data.count).toBe(1)
+    clock.advance(500)
+    expect(state.data.count).toBe(2)
+    expect(updates).toBe(3)
+
+    // Exiting the state cancels its pending timers
+    state.send("STOPPED")
+    clock.runAllTimers()
+    expect(state.data.sleeping).toBe(false)
+    expect(state.isIn("idle")).toBeTruthy()
+
+    // Entering it again starts them over
+    state.send("STARTED")
+    clock.advance(3000)
+    expect(state.data.count).toBe(4)
+    expect(state.data.sleeping).toBe(true)
+    expect(state.isIn("idle")).toBeTruthy()
+  })
+
+  it("Should abort asyncs when their state is exited.", async () => {
+    let signal: AbortSignal | undefined
+    let resolve = (_: string) => {}
+
+    const request = new Promise<string>((r) => (resolve = r))
+
+    const state = createState({
+      data: { name: "" },
+      initial: "loading",
+      states: {
+        loading: {
+          on: { CANCELLED: { to: "idle" } },
+          async: {
+            await: (_, __, ___, context) => {
+              signal = context.signal
+              return request
+            },
+            onResolve: { do: (data, _, name) => (data.name = name) },
+          },
+        },
+        idle: {},
+      },
+    })
+
+    expect(signal?.aborted).toBe(false)
+    state.send("CANCELLED")
+    expect(signal?.aborted).toBe(true)
+
+    resolve("Steve")
+    await request
+    expect(state.data.name).toBe("")
+  })
+
+  it("Should abort asyncs where AbortController is not available.", () => {
+    const global = window as any
+    const { AbortController } = global
+    delete global.AbortController
+
+    try {
+      let signal: AbortSignal | undefined
+      let aborted = 0
+
+      const state = createState({
+        data: { name: "" },
+        initial: "loading",
+        states: {
+          loading: {
+            on: { CANCELLED: { to: "idle" } },
+            async: {
+              await: (_, __, ___, context) => {
+                signal = context.signal
+                signal.addEventListener("abort", () => aborted++)
+                return new Promise<string>(() => {})
+              },
+              onResolve: { do: (data, _, name) => (data.name = name) },
+            },
+          },
+          idle: {},
+        },
+      })
+
+      expect(signal?.aborted).toBe(false)
+      state.send("CANCELLED")
+      expect(signal?.aborted).toBe(true)
+      expect(aborted).toBe(1)
+    } finally {
+      global.AbortController = AbortController
+    }
+  })
+
+  it("Should support multiple asyncs and progress.", async () => {
+    const progress: ((value: number) => void)[] = []
+    const resolves: ((value: string) => void)[] = []
+    const requests = [0, 1].map(
+      () => new Promise<string>((r) => resolves.push(r))
+    )
+
+    const state = createState({
+      data: { loaded: [] as string[], percent: 0 },
+      initial: "loading",
+      states: {
+        loading: {
+          async: [
+            {
+              await: "loadUser",
+              onResolve: { do: "addLoaded" },
+              onProgress: {
+                do: (data, _, percent) => (data.percent = percent),
+              },
+            },
+            {
+              await: "loadPosts",
+              onResolve: { do: "addLoaded" },
+            },
+          ],
+        },
+      },
+      actions: {
+        addLoaded(data, _, name) {
+          data.loaded.push(name)
+        },
+      },
+      asyncs: {
+        loadUser(_, __, ___, context) {
+          progress.push(context.progress)
+          return requests[0]
+        },
+        loadPosts() {
+          return requests[1]
+        },
+      },
+    })
+
+    let updates = 0
+    state.onUpdate(() => updates++)
+
+    progress[0](50)
+    expect(state.data.percent).toBe(50)
+
+    resolves[1]("posts")
+    await requests[1]
+    resolves[0]("user")
+    await requests[0]
+    expect(state.data.loaded).toEqual(["posts", "user"])
+    expect(updates).toBe(3)
+
+    // Progress after the async has settled is ignored
+    progress[0](100)
+    expect(state.data.percent).toBe(50)
+  })
+
+  it("Should reject asyncs that time out.", () => {
+    const clock = createTestClock()
+    let signal: AbortSignal | undefined
+    let error: S.AsyncTimeoutError | undefined
+
+    const state = createState(
+      {
+        initial: "loading",
+        states: {
+          loading: {
+            async: {
+              await: (_, __, ___, context) => {
+                signal = context.signal
+                return new Promise(() => {})
+              },
+              timeout: 2,
+              onResolve: { to: "loaded" },
+              onReject: [(_, __, result) => (error = result), { to: "failed" }],
+            },
+          },
+          loaded: {},
+          failed: {},
+        },
+      },
+      { clock }
+    )
+
+    clock.advance(1999)
+    expect(state.isIn("loading")).toBeTruthy()
+    clock.advance(1)
+    expect(state.isIn("failed")).toBeTruthy()
+    expect(signal?.aborted).toBe(true)
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toMatchObject({ name: "AsyncTimeoutError", timeout: 2 })
+  })
+
+  it("Should support services.", () => {
+    const sendBacks: S.SendBack[] = []
+    let cleanups = 0
+
+    const state = createState({
+      data: { messages: [] as string[] },
+      initial: "connected",
+      states: {
+        connected: {
+          service: [
+            "subscribe",
+            (_, __, sendBack) => {
+              sendBack("RECEIVED", "hello")
+            },
+          ],
+          on: {
+            RECEIVED: { do: (data, message) => data.messages.push(message) },
+            DISCONNECTED: { to: "disconnected" },
+          },
+        },
+        disconnected: {
+          on: { CONNECTED: { to: "connected" } },
+        },
+      },
+      services: {
+        subscribe(_, __, sendBack) {
+          sendBacks.push(sendBack)
+          return () => cleanups++
+        },
+      },
+    })
+
+    expect(state.data.messages).toEqual(["hello"])
+    sendBacks[0]("RECEIVED", "world")
+    expect(state.data.messages).toEqual(["hello", "world"])
+
+    // Exiting the state stops its services
+    state.send("DISCONNECTED")
+    expect(cleanups).toBe(1)
+    sendBacks[0]("RECEIVED", "ignored")
+    expect(state.data.messages).toEqual(["hello", "world"])
+
+    // Entering it again restarts them
+    state.send("CONNECTED")
+    expect(sendBacks.length).toBe(2)
+    sendBacks[1]("RECEIVED", "again")
+    expect(state.data.messages).toEqual(["hello", "world", "hello", "again"])
+  })
+
+  it("Should run plugins around events, transitions and notifications.", () => {
+    const calls: string[] = []
+
+    const state = createState(
+      {
+        id: "plugins",
+        data: { count: 0 },
+        initial: "idle",
+        states: {
+          idle: { on: { STARTED: { to: "running" } } },
+          running: { on: { STOPPED: { to: "idle" } } },
+        },
+        on: {
+          INCREASED: { do: (data, amount: number) => (data.count += amount) },
+        },
+      },
+      {
+        plugins: [
+          {
+            name: "analytics",
+            beforeEvent: ({ event }) => void calls.push("before " + event),
+            afterEvent: ({ event }, state) =>
+              void calls.push(`after ${event} (${state.data.count})`),
+            afterTransition: ({ before, after }) =>
+              void calls.push(`${before.join()} -> ${after.join()}`),
+            onNotify: () => void calls.push("notify"),
+          },
+          {
+            name: "permissions",
+            beforeEvent: (event) => {
+              if (event.event === "INCREASED") {
+                return { ...event, payload: event.payload * 2 }
+              }
+              return event.event !== "FORBIDDEN"
+            },
+            beforeTransition: ({ targets }) =>
+              !targets.includes("#plugins.root.running"),
+          },
+        ],
+      }
+    )
+
+    expect(calls).toEqual([" -> #plugins.root,#plugins.root.idle"])
+    calls.length = 0
+
+    // Transformed events
+    state.send("INCREASED", 1)
+    expect(state.data.count).toBe(2)
+    expect(calls).toEqual(["before INCREASED", "after INCREASED (2)", "notify"])
+    calls.length = 0
+
+    // Vetoed events are not handled or logged
+    state.send("FORBIDDEN")
+    expect(calls).toEqual(["before FORBIDDEN"])
+    expect(state.log).toEqual(["INCREASED"])
+    calls.length = 0
+
+    // Vetoed transitions leave the active states unchanged
+    state.send("STARTED")
+    expect(state.isIn("idle")).toBeTruthy()
+    expect(calls).toEqual(["before STARTED", "after STARTED (2)", "notify"])
+  })
+
+  it("Should undo and redo changes to data and active states.", () => {
+    const state = createState(
+      {
+        data: { count: 0, pointer: 0 },
+        initial: "idle",
+        states: {
+          idle: { on: { STARTED: { to: "running" } } },
+          running: {},
+        },
+        on: {
+          INCREASED: { do: (data) => data.count++ },
+          MOVED_POINTER: {
+            do: (data, point: number) => (data.pointer = point),
+          },
+        },
+        nonUndoable: ["MOVED_POINTER"],
+      },
+      { history: { limit: 2 } }
+    )
+
+    expect(state.canUndo).toBe(false)
+
+    state.send("INCREASED")
+    state.send("STARTED")
+    state.send("MOVED_POINTER", 10)
+    state.send("INCREASED")
+
+    // The limit drops the oldest entry, and non-undoable events aren't recorded
+    expect(state.history.length).toBe(2)
+
+    state.undo()
+    expect(state.data).toEqual({ count: 1, pointer: 10 })
+    expect(state.isIn("running")).toBe(true)
+    expect(state.canRedo).toBe(true)
+
+    state.undo()
+    expect(state.data).toEqual({ count: 1, pointer: 10 })
+    expect(state.isIn("idle")).toBe(true)
+    expect(state.canUndo).toBe(false)
+
+    state.redo()
+    state.redo()
+    expect(state.data.count).toBe(2)
+    expect(state.isIn("running")).toBe(true)
+
+    // New changes clear the redo stack
+    state.undo()
+    state.send("INCREASED")
+    expect(state.canRedo).toBe(false)
+    expect(state.data.count).toBe(2)
+
+    // ...and so do changes from non-undoable events
+    state.undo()
+    state.send("MOVED_POINTER", 100)
+    expect(state.canRedo).toBe(false)
+
+    state.redo()
+    expect(state.data).toEqual({ count: 1, pointer: 100 })
+  })
+
+  it("Should include patches and changed paths in each update.", async () => {
+    const state = createState({
+      data: { todos: [{ done: false }, { done: false }], filter: "all" },
+      on: {
+        TOGGLED: {
+          do: (data, index: number) => (data.todos[index].done = true),
+        },
+        FILTERED: { do: (data) => (data.filter = "done") },
+      },
+    })
+
+    const updates: string[][] = []
+    state.onUpdate((update) => updates.push(update.changedPaths))
+
+    state.send("TOGGLED", 1)
+    await state.send("FILTERED")
+    expect(updates).toEqual([["todos.1.done"], ["filter"]])
+
+    expect(state.patches).toEqual([
+      { op: "replace", path: ["filter"], value: "done" },
+    ])
+    expect(state.inversePatches).toEqual([
+      { op: "replace", path: ["filter"], value: "all" },
+    ])
+
+    state.reset()
+    expect(state.changedPaths).toEqual([""])
+  })
+
+  it("Should call selector listeners only when the selection changes.", () => {
+    const state = createState({
+      data: { count: 0, name: "counter", items: [1, 2] },
+      on: {
+        INCREASED: { do: (data) => data.count++ },
+        RENAMED: { do: (data, name: string) => (data.name = name) },
+        SORTED: { do: (data) => data.items.sort() },
+      },
+    })
+
+    const counts: [number, number][] = []
+    state.select(
+      (state) => state.data.count,
+      (count, previous) => counts.push([count, previous])
+    )
+
+    const lengths: number[] = []
+    state.select(
+      (state) => state.data.items.map((item) => item),
+      (items) => lengths.push(items.length),
+      (a, b) => a.join() === b.join()
+    )
+
+    state.send("INCREASED")
+    state.send("RENAMED", "clicker")
+    state.send("SORTED")
+    state.send("INCREASED")
+
+    expect(counts).toEqual([
+      [1, 0],
+      [2, 1],
+    ])
+    expect(lengths).toEqual([])
+  })
+
+  it("Should throttle and debounce events.", async () => {
+    const clock = createTestClock()
+
+    const state = createState(
+      {
+        data: { moves: [] as number[], query: "" },
+        initial: "drawing",
+        states: {
+          drawing: {
+            on: {
+              MOVED_POINTER: {
+                throttle: 16,
+                do: (data, x: number) => data.moves.push(x),
+              },
+              TYPED: {
+                debounce: 100,
+                do: (data, query: string) => (data.query = query),
+              },
+              STOPPED: { to: "idle" },
+            },
+          },
+          idle: { on: { STARTED: { to: "drawing" } } },
+        },
+      },
+      { clock }
+    )
+
+    state.send("MOVED_POINTER", 1)
+    state.send("MOVED_POINTER", 2)
+    clock.advance(16)
+    state.send("MOVED_POINTER", 3)
+    expect(state.data.moves).toEqual([1, 3])
+
+    const typed = state.send("TYPED", "a")
+    state.send("TYPED", "ab")
+    clock.advance(50)
+    state.send("TYPED", "abc")
+    clock.advance(99)
+    expect(state.data.query).toBe("")
+    clock.advance(1)
+    expect(state.data.query).toBe("abc")
+    expect((await typed).data.query).toBe("abc")
+
+    // Exiting the state drops its pending debounced events
+    const dropped = state.send("TYPED", "abcd")
+    state.send("STOPPED")
+    state.send("STARTED")
+    clock.advance(100)
+    expect(state.data.query).toBe("abc")
+    expect((await dropped).data.query).toBe("abc")
+  })
+
+  it("Should handle events sent with sendNow before queued events.", () => {
+    const log: string[] = []
+
+    const state = createState({
+      on: {
+        STARTED: () => {
+          log.push("STARTED")
+          state.send("QUEUED")
+          state.sendNow("URGENT")
+        },
+        QUEUED: () => log.push("QUEUED"),
+        URGENT: () => log.push("URGENT"),
+      },
+    })
+
+    state.send("STARTED")
+    expect(log).toEqual(["STARTED", "URGENT", "QUEUED"])
+  })
+
+  it("Should defer events until a state can handle them.", async () => {
+    const clock = createTestClock()
+
+    const state = createState(
+      {
+        id: "defer",
+        data: { saved: [] as string[] },
+        initial: "loading",
+        states: {
+          loading: {
+            defer: ["SAVED"],
+            onEnter: { wait: 1, to: "ready" },
+            on: { FAILED: { to: "error" } },
+          },
+          ready: {
+            on: { SAVED: (data, name: string) => data.saved.push(name) },
+          },
+          error: {},
+        },
+      },
+      { clock }
+    )
+
+    const saved = state.send("SAVED", "a")
+    state.send("SAVED", "b")
+    expect(state.queue.deferred).toEqual([
+      { event: "SAVED", payload: "a" },
+      { event: "SAVED", payload: "b" },
+    ])
+    expect(state.queue.waits).toEqual([
+      { state: "#defer.root.loading", delay: 1000, startedAt: 0 },
+    ])
+
+    clock.advance(1000)
+    expect(state.isIn("ready")).toBe(true)
+    expect(state.data.saved).toEqual(["a", "b"])
+    expect((await saved).data.saved).toEqual(["a", "b"])
+    expect(state.queue).toEqual({
+      pending: [],
+      deferred: [],
+      debounced: [],
+      waits: [],
+    })
+
+    // Deferred events are dropped when no active state defers them
+    const other = createState({
+      initial: "loading",
+      states: {
+        loading: { defer: ["SAVED"], on: { FAILED: { to: "error" } } },
+        error: {},
+      },
+    })
+
+    const dropped = other.send("SAVED")
+    expect(other.queue.deferred).toHaveLength(1)
+    other.send("FAILED")
+    expect(other.queue.deferred).toHaveLength(0)
+    expect((await dropped).isIn("error")).toBe(true)
+  })
+
+  it("Should support event patterns.", () => {
+    const design = createDesign({
+      data: { x: 0, log: [] as string[] },
+      events: {} as {
+        MOVED_LEFT: undefined
+        MOVED_RIGHT: undefined
+        STOPPED: undefined
+      },
+      on: {
+        MOVED_LEFT: (data) => data.log.push("left"),
+        "MOVED_*": (data, _, __, { event }) => {
+          data.x += event === "MOVED_LEFT" ? -1 : 1
+        },
+        "*": (data, _, __, { event }) => data.log.push(event as string),
+      },
+    })
+
+    const state = createState(design)
+
+    expect(state.can("MOVED_RIGHT")).toBe(true)
+    state.send("MOVED_LEFT")
+    state.send("MOVED_RIGHT")
+    state.send("MOVED_RIGHT")
+    state.send("STOPPED")
+    expect(state.data.x).toBe(1)
+    expect(state.data.log).toEqual([
+      "left",
+      "MOVED_LEFT",
+      "MOVED_RIGHT",
+      "MOVED_RIGHT",
+      "STOPPED",
+    ])
+  })
+
+  it("Should pass the event name to functions that run later.", () => {
+    const clock = createTestClock()
+    let entered: string | undefined
+    let waited: string | undefined
+
+    const state = createState(
+      {
+        initial: "idle",
+        states: {
+          idle: { on: { STARTED: { to: "running" } } },
+          running: {
+            onEnter: [
+              (_, __, ___, { event }) => (entered = event),
+              { wait: 1 },
+              (_, __, ___, { event }) => (waited = event),
+            ],
+          },
+        },
+      },
+      { clock }
+    )
+
+    expect(entered).toBeUndefined()
+    state.send("STARTED")
+    expect(entered).toBe("STARTED")
+    clock.advance(1000)
+    expect(waited).toBe("STARTED")
+  })
+
+  it("Should pass a context to event functions.", () => {
+    const clock = createTestClock()
+    const contexts: S.EventContext[] = []
+    let wasIdle = false
+    let wasActive = false
+
+    const state = createState(
+      {
+        id: "context",
+        data: { count: 1 },
+        initial: "idle",
+        states: {
+          idle: {
+            on: {
+              CLICKED: [
+                (_, __, ___, context) => {
+                  contexts.push({ ...context })
+                  wasIdle = context.isIn("idle")
+                  context.send("INCREASED")
+                },
+                { to: "active" },
+              ],
+            },
+          },
+          active: {
+            onEnter: (_, __, ___, context) => {
+              wasActive = context.isIn("active")
+            },
+            on: { INCREASED: (data) => data.count++ },
+          },
+        },
+        values: {
+          double: (data) => data.count * 2,
+        },
+      },
+      { clock }
+    )
+
+    clock.advance(500)
+    state.send("CLICKED")
+
+    expect(contexts[0]).toMatchObject({
+      event: "CLICKED",
+      path: "#context.root.idle",
+      values: { double: 2 },
+      now: 500,
+    })
+    expect(wasIdle).toBe(true)
+
+    // The context's isIn sees transitions made during the event
+    expect(wasActive).toBe(true)
+
+    // Events sent from the context are handled after the current event
+    expect(state.isIn("active")).toBe(true)
+    expect(state.data.count).toBe(2)
+  })
+
   // Do initial active states work?
   it("Should support else event handlers.", async (done) => {
     const state = createState({
@@ -818,6 +2163,89 @@ describe("createState", () => {
     state.send("INCREASED", { count: 0 })
   })
 
+  it("Should memoize values.", () => {
+    const calls: string[] = []
+
+    const state = createState({
+      data: { items: [1, 2, 3], name: "list" },
+      initial: "showing",
+      states: {
+        showing: { on: { HID: { to: "hidden" } } },
+        hidden: {},
+      },
+      on: {
+        ADDED: { do: (data, item: number) => data.items.push(item) },
+        RENAMED: { do: (data, name: string) => (data.name = name) },
+      },
+      values: {
+        total(data) {
+          calls.push("total")
+          return data.items.reduce((acc, item) => acc + item, 0)
+        },
+        summary(data, { values }) {
+          calls.push("summary")
+          return data.name + ": " + values.total
+        },
+        visible(_, { isIn }) {
+          calls.push("visible")
+          return isIn("showing")
+        },
+      },
+    })
+
+    expect(state.values).toEqual({
+      total: 6,
+      summary: "list: 6",
+      visible: true,
+    })
+    calls.length = 0
+
+    state.send("RENAMED", "numbers")
+    expect(state.values.summary).toBe("numbers: 6")
+    expect(calls).toEqual(["summary"])
+    calls.length = 0
+
+    state.send("ADDED", 4)
+    expect(state.values.summary).toBe("numbers: 10")
+    expect(calls).toEqual(["total", "summary"])
+    calls.length = 0
+
+    state.send("HID")
+    expect(state.values.visible).toBe(false)
+    expect(calls).toEqual(["visible"])
+  })
+
+  it("Should report errors from single values.", () => {
+    const state = createState({
+      data: { user: undefined as { name: string } | undefined },
+      on: {
+        SIGNED_IN: { do: (data) => (data.user = { name: "Ada" }) },
+      },
+      values: {
+        name(data) {
+          return data.user!.name
+        },
+        signedIn(data) {
+          return data.user !== undefined
+        },
+        looped(_, { values }): any {
+          return values.looped
+        },
+      },
+    })
+
+    expect(state.values.name).toBeUndefined()
+    expect(state.values.signedIn).toBe(false)
+    expect(state.valueErrors.name).toBeInstanceOf(Error)
+    expect(state.valueErrors.looped?.message).toBe(
+      "The value looped depends on itself!"
+    )
+
+    state.send("SIGNED_IN")
+    expect(state.values.name).toBe("Ada")
+    expect(state.valueErrors.name).toBeUndefined()
+  })
+
   // Do value types work?
   const stateB = createState({
     data: { count: 0 },
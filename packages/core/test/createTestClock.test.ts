@@ -0,0 +1,130 @@
+import { createState, createTestClock } from "../src"
+
+describe("createTestClock", () => {
+  it("Should create a clock.", () => {
+    const clock = createTestClock()
+    expect(clock).toBeTruthy()
+    expect(clock.now()).toBe(0)
+  })
+
+  it("Should run timeouts when advanced.", () => {
+    const clock = createTestClock()
+    const calls: number[] = []
+
+    clock.setTimeout(() => calls.push(2), 200)
+    clock.setTimeout(() => calls.push(1), 100)
+    const cancelled = clock.setTimeout(() => calls.push(3), 150)
+    clock.clearTimeout(cancelled)
+
+    clock.advance(99)
+    expect(calls).toMatchObject([])
+    clock.advance(1)
+    expect(calls).toMatchObject([1])
+    expect(clock.now()).toBe(100)
+    clock.advance(500)
+    expect(calls).toMatchObject([1, 2])
+    expect(clock.now()).toBe(600)
+  })
+
+  it("Should run intervals when advanced.", () => {
+    const clock = createTestClock()
+    let count = 0
+
+    const interval = clock.setInterval(() => count++, 100)
+    clock.advance(350)
+    expect(count).toBe(3)
+    clock.clearInterval(interval)
+    clock.advance(350)
+    expect(count).toBe(3)
+  })
+
+  it("Should run all timeouts.", () => {
+    const clock = createTestClock()
+    const calls: number[] = []
+
+    clock.setTimeout(() => {
+      calls.push(1)
+      clock.setTimeout(() => calls.push(2), 1000)
+    }, 1000)
+
+    clock.runAllTimers()
+    expect(calls).toMatchObject([1, 2])
+    expect(clock.now()).toBe(2000)
+  })
+
+  it("Should step through waits.", () => {
+    const clock = createTestClock()
+
+    const state = createState(
+      {
+        data: { count: 0 },
+        on: {
+          TRIGGERED: [
+            "increment",
+            { wait: 1, do: "increment" },
+            { wait: 1, do: "increment" },
+          ],
+        },
+        actions: {
+          increment(data) {
+            data.count++
+          },
+        },
+      },
+      { clock }
+    )
+
+    state.send("TRIGGERED")
+    expect(state.data.count).toBe(1)
+    clock.advance(1000)
+    expect(state.data.count).toBe(2)
+    clock.runAllTimers()
+    expect(state.data.count).toBe(3)
+  })
+
+  it("Should step through repeat events.", () => {
+    const clock = createTestClock()
+
+    const state = createState(
+      {
+        data: { seconds: 0, frames: 0, elapsed: 0 },
+        initial: "stopped",
+        states: {
+          stopped: {
+            on: { STARTED: { to: "running" } },
+          },
+          running: {
+            on: { STOPPED: { to: "stopped" } },
+            states: {
+              seconds: {
+                repeat: {
+                  delay: 1,
+                  onRepeat: (data) => data.seconds++,
+                },
+              },
+              frames: {
+                repeat: {
+                  onRepeat: (data, _, { elapsed }) => {
+                    data.frames++
+                    data.elapsed = elapsed
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      { clock }
+    )
+
+    state.send("STARTED")
+    clock.advance(2500)
+    expect(state.data.seconds).toBe(2)
+    expect(state.data.frames).toBe(150)
+    expect(state.data.elapsed).toBeCloseTo(2500)
+    state.send("STOPPED")
+    clock.advance(2500)
+    expect(state.data.seconds).toBe(2)
+    expect(state.data.frames).toBe(150)
+  })
+})
@@ -0,0 +1,214 @@
+import { S, createDesign, validateDesign } from "../src"
+import { counterDesign } from "./shared"
+
+describe("validateDesign", () => {
+  it("Should find no problems in a valid design.", () => {
+    expect(validateDesign(counterDesign)).toMatchObject([])
+  })
+
+  it("Should report missing collection items.", () => {
+    const design: S.Design<{ count: number }> = {
+      data: { count: 0 },
+      on: {
+        CLICKED: {
+          get: "missingResult",
+          if: ["isPositive", "missingCondition"],
+          do: "missingAction",
+          wait: "missingTime",
+        },
+        TOUCHED: "increment",
+      },
+      conditions: {
+        isPositive: (data: { count: number }) => data.count > 0,
+      },
+    }
+
+    const diagnostics = validateDesign(design)
+
+    expect(diagnostics.map((d) => d.code)).toMatchObject([
+      "unknown-result",
+      "unknown-condition",
+      "unknown-action",
+      "unknown-time",
+      "unknown-action",
+    ])
+
+    expect(diagnostics[1]).toMatchObject({
+      severity: "error",
+      path: ["on", "CLICKED", "if", 1],
+      message: "No item in conditions named missingCondition!",
+    })
+  })
+
+  it("Should report missing and ambiguous targets.", () => {
+    // Missing targets are also type errors.
+    // @ts-expect-error
+    const design = createDesign({
+      initial: "a",
+      states: {
+        a: {
+          on: { NEXT: { to: "b" }, LOST: { to: "nowhere" }, GO: { to: "c" } },
+          initial: "c",
+          states: { c: {} },
+        },
+        b: {
+          initial: "c",
+          states: { c: {} },
+        },
+      },
+    })
+
+    const diagnostics = validateDesign(design)
+
+    expect(diagnostics).toMatchObject([
+      {
+        code: "missing-target",
+        severity: "error",
+        path: ["states", "a", "on", "LOST", "to"],
+      },
+      {
+        code: "ambiguous-target",
+        severity: "warning",
+        path: ["states", "a", "on", "GO", "to"],
+      },
+    ])
+  })
+
+  it("Should resolve relative and absolute targets.", () => {
+    const design = createDesign({
+      id: "test",
+      initial: "a",
+      states: {
+        a: { on: { NEXT: { to: "..b" }, BACK: { to: ".c" } } },
+        b: {
+          on: { NEXT: { to: "#test.root.c" }, LOST: { to: "#other.root.a" } },
+        },
+        c: {},
+      },
+    })
+
+    expect(validateDesign(design)).toMatchObject([
+      { code: "missing-target", path: ["states", "a", "on", "BACK", "to"] },
+      { code: "missing-target", path: ["states", "b", "on", "LOST", "to"] },
+    ])
+  })
+
+  it("Should report problems with initial states.", () => {
+    const design = createDesign({
+      initial: "missing",
+      states: {
+        a: {
+          initial: "b",
+        },
+      },
+    })
+
+    expect(validateDesign(design).map((d) => d.code)).toMatchObject([
+      "missing-initial",
+      "initial-without-states",
+      "unreachable-state",
+    ])
+  })
+
+  it("Should report problems with final states and onDone.", () => {
+    const design = createDesign({
+      initial: "a",
+      states: {
+        a: {
+          final: true,
+          onDone: () => {},
+          initial: "b",
+          states: { b: {} },
+        },
+      },
+    })
+
+    expect(validateDesign(design).map((d) => d.code)).toMatchObject([
+      "final-with-states",
+    ])
+
+    const leaf = createDesign({
+      initial: "a",
+      states: {
+        a: {
+          onDone: () => {},
+        },
+      },
+    })
+
+    expect(validateDesign(leaf).map((d) => d.code)).toMatchObject([
+      "on-done-without-states",
+    ])
+  })
+
+  it("Should check after events.", () => {
+    const design: S.Design<unknown> = {
+      initial: "a",
+      states: {
+        a: { after: { 2: { to: "b" }, missingTime: { to: "c" } } },
+        b: {},
+      },
+    }
+
+    expect(validateDesign(design)).toMatchObject([
+      { code: "unknown-time", path: ["states", "a", "after", "missingTime"] },
+      {
+        code: "missing-target",
+        path: ["states", "a", "after", "missingTime", "to"],
+      },
+    ])
+  })
+
+  it("Should report unreachable states.", () => {
+    const design = createDesign({
+      initial: "a",
+      states: {
+        a: { on: { NEXT: { to: "b" } } },
+        b: {},
+        c: {},
+      },
+    })
+
+    expect(validateDesign(design)).toMatchObject([
+      {
+        code: "unreachable-state",
+        severity: "warning",
+        path: ["states", "c"],
+      },
+    ])
+  })
+
+  it("Should not report unreachable states when targets are computed.", () => {
+    const design = createDesign({
+      initial: "a",
+      states: {
+        a: { on: { NEXT: { to: () => "b" } } },
+        b: {},
+      },
+    })
+
+    expect(validateDesign(design)).toMatchObject([])
+  })
+
+  it("Should validate child machine designs.", () => {
+    const design = createDesign({
+      initial: "loading",
+      states: {
+        loading: {
+          machine: {
+            design: {
+              on: { LOADED: "missingAction" },
+            },
+          },
+        },
+      },
+    })
+
+    expect(validateDesign(design)).toMatchObject([
+      {
+        code: "unknown-action",
+        path: ["states", "loading", "machine", "design", "on", "LOADED"],
+      },
+    ])
+  })
+})
@@ -1,5 +1,6 @@
 import { useStateDesigner } from "./useStateDesigner"
 import { useUpdateEffect } from "./useUpdateEffect"
+import { useSelector } from "./useSelector"
 import { StateGraph } from "./StateGraph"
 import { S, createDesign, createState } from "@state-designer/core"
 
@@ -9,5 +10,6 @@ export {
   createState,
   useStateDesigner,
   useUpdateEffect,
+  useSelector,
   StateGraph,
 }
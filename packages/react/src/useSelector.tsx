@@ -0,0 +1,47 @@
+import * as React from "react"
+import { S } from "@state-designer/core"
+
+/**
+ * Subscribe a component to a selected part of a state. The component will only re-render when the selected value changes.
+ * @param state A state returned from createState.
+ * @param selector A function that selects a value from the state.
+ * @param isEqual (optional) A function that compares the previous and next values. Defaults to `Object.is`.
+ * @example
+ * const matrix = useSelector(game, (state) => state.data.matrix)
+ */
+export function useSelector<
+  D extends unknown,
+  V extends unknown,
+  E extends S.EventMap,
+  P extends string,
+  T
+>(
+  state: S.DesignedState<D, V, E, P>,
+  selector: (state: S.DesignedState<D, V, E, P>) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const [selected, setSelected] = React.useState(() => selector(state))
+
+  // Keep the latest selector and equality function, so that
+  // passing new functions on each render won't resubscribe.
+  const rSelector = React.useRef(selector)
+  const rIsEqual = React.useRef(isEqual)
+  rSelector.current = selector
+  rIsEqual.current = isEqual
+
+  React.useEffect(() => {
+    // The state may have changed (or been replaced) since the first render.
+    setSelected((current) => {
+      const next = rSelector.current(state)
+      return rIsEqual.current(current, next) ? current : next
+    })
+
+    return state.select(
+      (update) => rSelector.current(update),
+      (next) => setSelected(() => next),
+      (a, b) => rIsEqual.current(a, b)
+    )
+  }, [state])
+
+  return selected
+}
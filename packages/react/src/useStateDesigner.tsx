@@ -46,18 +46,44 @@ export function useStateDesigner<
     ? {
         [key in keyof V]: ReturnType<V[key]>
       }
-    : P
+    : P,
+  E extends S.EventMap = S.EventMap,
+  Z extends Record<string, S.Service<D>> = Record<string, S.Service<D>>,
+  X extends Record<string, S.StateDesign<D, R, C, A, Y, T, V, E, Z>> = Record<
+    string,
+    S.StateDesign<D, R, C, A, Y, T, V, E, Z>
+  >,
+  O extends S.EventHandlersDesign<D, R, C, A, T, E> = S.EventHandlersDesign<
+    D,
+    R,
+    C,
+    A,
+    T,
+    E
+  >,
+  Q extends string = string,
+  G extends string = string
 >(
-  design: S.Design<D, R, C, A, Y, T, V> | S.DesignedState<D, P>,
+  design:
+    | (S.Design<D, R, C, A, Y, T, V, E, Z, X, O> & S.ValidTargets<X, O>)
+    | S.DesignedState<D, P, E, Q, G>,
   dependencies: any[] = emptyArray
-): S.DesignedState<D, J> {
-  const designAsDesignedState = design as S.DesignedState<D, J>
-  const designAsDesign = design as S.Design<D, R, C, A, Y, T, V>
+): S.DesignedState<D, J, E, Q & S.StatePath<X>, G & S.TransitionStatePath<X>> {
+  type State = S.DesignedState<
+    D,
+    J,
+    E,
+    Q & S.StatePath<X>,
+    G & S.TransitionStatePath<X>
+  >
+  const designAsDesignedState = design as State
+  const designAsDesign = design as S.Design<D, R, C, A, Y, T, V, E, Z, X, O> &
+    S.ValidTargets<X, O>
 
   // Store a state — either as provided or new from design,
   // and, if given a design, re-create the state when dependencies change
   // @ts-ignore -- This sucks!
-  const state: S.DesignedState<D, J> = React.useMemo(() => {
+  const state: State = React.useMemo(() => {
     return isUndefined(designAsDesignedState.send)
       ? createState(designAsDesign)
       : designAsDesignedState
@@ -71,10 +97,23 @@ export function useStateDesigner<
   React.useEffect(() => {
     setCurrent(state)
 
-    function handleUpdate(update: S.DesignedState<D, J>) {
+    function handleUpdate(update: State) {
       setCurrent((current) => ({
         ...current,
-        ...pick(update, "data", "active", "stateTree", "values", "log"),
+        ...pick(
+          update,
+          "data",
+          "active",
+          "stateTree",
+          "values",
+          "log",
+          "canUndo",
+          "canRedo",
+          "patches",
+          "inversePatches",
+          "changedPaths",
+          "valueErrors"
+        ),
       }))
     }
 
@@ -1,9 +1,14 @@
 import * as React from "react"
 import { S } from "@state-designer/core"
 
-export function useUpdateEffect<D extends unknown, V extends unknown>(
-  state: S.DesignedState<D, V>,
-  callback: S.SubscriberFn<S.DesignedState<D, V>>,
+export function useUpdateEffect<
+  D extends unknown,
+  V extends unknown,
+  E extends S.EventMap,
+  P extends string
+>(
+  state: S.DesignedState<D, V, E, P>,
+  callback: S.SubscriberFn<S.DesignedState<D, V, E, P>>,
   dependencies?: unknown[]
 ) {
   React.useEffect(() => {
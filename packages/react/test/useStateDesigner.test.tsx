@@ -6,6 +6,7 @@ import {
   createState,
   useStateDesigner,
   useUpdateEffect,
+  useSelector,
 } from "../"
 
 const configObject = {
@@ -142,4 +143,35 @@ describe("useStateDesigner", () => {
     ReactDOM.render(<App />, div)
     ReactDOM.unmountComponentAtNode(div)
   })
+
+  it("Should only re-render when a selected value changes.", () => {
+    const counter = createState({
+      data: { count: 0, name: "counter" },
+      on: {
+        ADDED_ONE: (d) => d.count++,
+        RENAMED: (d, name: string) => (d.name = name),
+      },
+    })
+
+    let renders = 0
+
+    const Count = () => {
+      const count = useSelector(counter, (state) => state.data.count)
+      renders++
+      return <h1>{count}</h1>
+    }
+
+    const div = document.createElement("div")
+    ReactDOM.render(<Count />, div)
+    expect(renders).toBe(1)
+
+    counter.send("RENAMED", "clicker")
+    expect(renders).toBe(1)
+
+    counter.send("ADDED_ONE")
+    expect(renders).toBe(2)
+    expect(div.textContent).toBe("1")
+
+    ReactDOM.unmountComponentAtNode(div)
+  })
 })
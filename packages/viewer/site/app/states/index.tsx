@@ -64,72 +64,85 @@ export const Project = createState({
       states: {
         noProject: {},
         notFound: {},
-        loading: {
-          on: {
-            SNAPSHOT_UPDATED: [
-              "updateFromFirebase",
-              "setStaticValues",
-              "setCaptiveState",
-              "setCaptiveTheme",
-              "updateStates",
-              { to: "ready" },
-            ],
-          },
+        // Pass through here so that opening a project while another is open
+        // re-enters project, restarting its service with the new ids.
+        opening: {
+          onEnter: { to: "project" },
         },
-        ready: {
-          on: {
-            FORKED_PROJECT: [
-              {
-                if: "isAuthenticated",
-                then: {
-                  if: "isOwner",
-                  do: "copyProject",
-                  else: { do: "forkProject" },
-                },
-                else: "authenticate",
-              },
-            ],
-            SNAPSHOT_UPDATED: [
-              "updateFromFirebase",
-              // {
-              //   if: "changeUpdatesCaptiveState",
-              //   do: ["setStaticValues", "setCaptiveState", "setCaptiveTheme"],
-              // },
-              "updateStates",
-            ],
-            CHANGED_CODE: [
-              "setCode",
-              "setStaticValues",
-              "updateStates",
-              "updateFirebase",
-            ],
-            CHANGED_NAME: "setName",
-          },
+        project: {
+          service: "subscribeToProjectChanges",
+          initial: "loading",
           states: {
-            tabs: {
-              initial: "state",
+            loading: {
               on: {
-                TABBED_TO_STATE: { to: "state" },
-                TABBED_TO_JSX: { to: "jsx" },
-                TABBED_TO_STATIC: { to: "static" },
-                TABBED_TO_THEME: { to: "theme" },
+                SNAPSHOT_UPDATED: [
+                  "updateFromFirebase",
+                  "setStaticValues",
+                  "setCaptiveState",
+                  "setCaptiveTheme",
+                  "updateStates",
+                  { to: "ready" },
+                ],
+              },
+            },
+            ready: {
+              on: {
+                FORKED_PROJECT: [
+                  {
+                    if: "isAuthenticated",
+                    then: {
+                      if: "isOwner",
+                      do: "copyProject",
+                      else: { do: "forkProject" },
+                    },
+                    else: "authenticate",
+                  },
+                ],
+                SNAPSHOT_UPDATED: [
+                  "updateFromFirebase",
+                  // {
+                  //   if: "changeUpdatesCaptiveState",
+                  //   do: ["setStaticValues", "setCaptiveState", "setCaptiveTheme"],
+                  // },
+                  "updateStates",
+                ],
+                CHANGED_CODE: [
+                  "setCode",
+                  "setStaticValues",
+                  "updateStates",
+                  "updateFirebase",
+                ],
+                CHANGED_NAME: "setName",
               },
               states: {
-                state: {
-                  on: { CHANGED_CODE: ["setStaticValues", "setCaptiveState"] },
-                },
-                jsx: {},
-                static: {
+                tabs: {
+                  initial: "state",
                   on: {
-                    CHANGED_CODE: [
-                      "setStaticValues",
-                      "setCaptiveTheme",
-                      "setCaptiveState",
-                    ],
+                    TABBED_TO_STATE: { to: "state" },
+                    TABBED_TO_JSX: { to: "jsx" },
+                    TABBED_TO_STATIC: { to: "static" },
+                    TABBED_TO_THEME: { to: "theme" },
+                  },
+                  states: {
+                    state: {
+                      on: {
+                        CHANGED_CODE: ["setStaticValues", "setCaptiveState"],
+                      },
+                    },
+                    jsx: {},
+                    static: {
+                      on: {
+                        CHANGED_CODE: [
+                          "setStaticValues",
+                          "setCaptiveTheme",
+                          "setCaptiveState",
+                        ],
+                      },
+                    },
+                    theme: {
+                      on: { CHANGED_CODE: ["setCaptiveTheme"] },
+                    },
                   },
-                },
-                theme: {
-                  on: { CHANGED_CODE: ["setCaptiveTheme"] },
                 },
               },
             },
@@ -144,14 +157,14 @@ export const Project = createState({
   on: {
     OPENED_PROJECT: [
       {
-        do: ["setupProject", "subscribeToProjectChanges"],
+        do: "setupProject",
       },
       {
         if: "isProject",
         then: {
           if: "isAuthenticated",
-          to: ["loading", "authenticated"],
-          else: { to: ["loading", "notAuthenticated"] },
+          to: ["opening", "authenticated"],
+          else: { to: ["opening", "notAuthenticated"] },
         },
         else: {
           if: "isAuthenticated",
@@ -190,14 +203,6 @@ export const Project = createState({
       d.isAuthenticated = data.isAuthenticated
       d.isOwner = data.uid === data.oid
     },
-    subscribeToProjectChanges(data) {
-      const { pid, oid } = data
-
-      subscribeToDocSnapshot(pid, oid, (doc) => {
-        const source = doc.data()
-        Project.send("SNAPSHOT_UPDATED", { source })
-      })
-    },
     copyProject(data) {
       const { pid, oid, uid } = data
       const newPid = pid + "_copy"
@@ -287,6 +292,16 @@ export const Project = createState({
       NameEditor.send("REFRESHED", { value: data.name })
     },
   },
+  services: {
+    subscribeToProjectChanges(data, _, sendBack) {
+      const { pid, oid } = data
+
+      return subscribeToDocSnapshot(pid, oid, (doc) => {
+        const source = doc.data()
+        sendBack("SNAPSHOT_UPDATED", { source })
+      })
+    },
+  },
 })
 
 // Project.onUpdate((state) => console.log(state.active))